@@ -1,5 +1,9 @@
 import { SimpleWhiteboard } from "./simple-whiteboard";
+export type { ExportImageOptions, ExportSvgOptions } from "./simple-whiteboard";
 import SimpleWhiteboardTool from "./lib/SimpleWhiteboardTool";
+import { DOCUMENT_VERSION, migrateDocument } from "./lib/document";
+import { Arrowhead } from "./lib/arrowheads";
+import { Shape } from "./lib/shapes";
 export type {
   BoundingRect,
   RoughCanvas,
@@ -7,15 +11,32 @@ export type {
   SimpleWhiteboardToolInterface,
   WhiteboardItem,
 } from "./lib/SimpleWhiteboardTool";
+export type { ConnectorBinding } from "./lib/connectors";
+export type { TextEditingOptions } from "./lib/text";
+export type { Alignment, DistributionAxis } from "./lib/align";
+export type { GroupItem } from "./lib/groups";
+export type { Layer } from "./lib/layers";
+export type {
+  WhiteboardDocument,
+  WhiteboardSettings,
+  WhiteboardViewport,
+} from "./lib/document";
+import { SimpleWhiteboardToolArrow } from "./tools/arrow";
 import { SimpleWhiteboardToolCircle } from "./tools/circle";
 import { SimpleWhiteboardToolClear } from "./tools/clear";
 import { SimpleWhiteboardToolDefaults } from "./tools/defaults";
+import { SimpleWhiteboardToolEraser } from "./tools/eraser";
+import { SimpleWhiteboardToolExport } from "./tools/export";
+import { SimpleWhiteboardToolGroup } from "./tools/group";
 import { SimpleWhiteboardToolLine } from "./tools/line";
 import { SimpleWhiteboardToolMove } from "./tools/move";
 import { SimpleWhiteboardToolPen } from "./tools/pen";
 import { SimpleWhiteboardToolPicture } from "./tools/picture";
 import { SimpleWhiteboardToolPointer } from "./tools/pointer";
+import { SimpleWhiteboardToolPolygon } from "./tools/polygon";
 import { SimpleWhiteboardToolRect } from "./tools/rect";
+import { SimpleWhiteboardToolShape } from "./tools/shape";
+import { SimpleWhiteboardToolSticky } from "./tools/sticky";
 
 declare global {
   interface HTMLElementTagNameMap {
@@ -24,16 +45,27 @@ declare global {
 }
 
 export {
+  Arrowhead,
+  DOCUMENT_VERSION,
+  migrateDocument,
+  Shape,
   SimpleWhiteboard,
   SimpleWhiteboardTool,
+  SimpleWhiteboardToolArrow,
   SimpleWhiteboardToolCircle,
   SimpleWhiteboardToolClear,
   SimpleWhiteboardToolDefaults,
+  SimpleWhiteboardToolEraser,
+  SimpleWhiteboardToolExport,
+  SimpleWhiteboardToolGroup,
   SimpleWhiteboardToolLine,
   SimpleWhiteboardToolMove,
   SimpleWhiteboardToolPen,
   SimpleWhiteboardToolPicture,
   SimpleWhiteboardToolPointer,
+  SimpleWhiteboardToolPolygon,
   SimpleWhiteboardToolRect,
+  SimpleWhiteboardToolShape,
+  SimpleWhiteboardToolSticky,
 };
 export default SimpleWhiteboard;
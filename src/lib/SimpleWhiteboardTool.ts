@@ -1,13 +1,21 @@
-import { LitElement, TemplateResult } from "lit";
+import { LitElement, TemplateResult, html } from "lit";
 import { v4 as uuidv4 } from "uuid";
 import { RoughCanvas as LocalRoughCanvas } from "roughjs/bin/canvas";
 import { Options as LocalRoughCanvasOptions } from "roughjs/bin/core";
 import { SimpleWhiteboard } from "../simple-whiteboard";
+import { Point, isPointInRect } from "./geometry";
+import { TextEditingOptions } from "./text";
 
 export interface WhiteboardItem {
   kind: string;
   id: string;
   options: Record<string, any>;
+  // Rotation of the item around the center of its bounding rect, in radians
+  rotation?: number;
+  // Locked items can only be selected explicitly, and can't be changed or removed until they are unlocked
+  locked?: boolean;
+  // ID of the layer of the item ; items without a layer are on the bottom layer
+  layerId?: string;
 }
 
 export type BoundingRect = {
@@ -29,14 +37,39 @@ export interface SimpleWhiteboardToolInterface {
     item: WhiteboardItem
   ): void;
   getBoundingRect(item: WhiteboardItem): BoundingRect | null;
+  hitTest(
+    item: WhiteboardItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean;
+  partialErase(
+    item: WhiteboardItem,
+    points: { x: number; y: number }[],
+    radius: number
+  ): WhiteboardItem[] | null;
+  isBindable(item: WhiteboardItem): boolean;
+  getBoundItemIds(item: WhiteboardItem): string[];
+  followBoundItems(item: WhiteboardItem): WhiteboardItem;
+  unbindItems(item: WhiteboardItem, itemIds: string[]): WhiteboardItem;
+  getTextEditingOptions(item: WhiteboardItem): TextEditingOptions | null;
+  setItemText(item: WhiteboardItem, text: string): WhiteboardItem;
+  toSvg(item: WhiteboardItem): string | null;
+  loadItemResources(item: WhiteboardItem): Promise<void>;
   onToolSelected(): void;
 
   handleDrawingStart(x: number, y: number): void;
   handleDrawingMove(x: number, y: number): void;
   handleDrawingEnd(): void;
+  handleDrawingCancel(): void;
+  handleDoubleClick(x: number, y: number): void;
 
   getCoordsItem(item: WhiteboardItem): { x: number; y: number };
   setCoordsItem(item: WhiteboardItem, x: number, y: number): WhiteboardItem;
+  resizeItem(item: WhiteboardItem, boundingRect: BoundingRect): WhiteboardItem;
+  isTransformable(item: WhiteboardItem): boolean;
+  getVertices(item: WhiteboardItem): Point[] | null;
+  moveVertex(item: WhiteboardItem, index: number, point: Point): WhiteboardItem;
 
   renderToolOptions(item: WhiteboardItem | null): TemplateResult | null;
 }
@@ -143,6 +176,148 @@ abstract class SimpleWhiteboardTool
     return null;
   }
 
+  /**
+   * Check if a point hits the item.
+   * By default, the bounding rect of the item is used ; implement this method in the tool class to follow the real geometry of the item.
+   * The point is in the unrotated space of the item.
+   *
+   * @param item The item to test.
+   * @param x The x coordinate of the point.
+   * @param y The y coordinate of the point.
+   * @param tolerance The maximum distance between the point and the item.
+   * @returns `true` if the point hits the item.
+   */
+  public hitTest(
+    item: WhiteboardItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const boundingRect = this.getBoundingRect(item);
+    if (!boundingRect) {
+      return false;
+    }
+    return isPointInRect({ x, y }, boundingRect, tolerance);
+  }
+
+  /**
+   * Erase the parts of the item that are close to some points.
+   * This method should be implemented in the tool class if only parts of the item can be erased.
+   *
+   * @param _item The item to erase.
+   * @param _points The points of the eraser path.
+   * @param _radius The radius of the eraser.
+   * @returns The remaining parts of the item (an empty array if nothing remains), or `null` if the item can only be erased as a whole.
+   */
+  public partialErase(
+    _item: WhiteboardItem,
+    _points: { x: number; y: number }[],
+    _radius: number
+  ): WhiteboardItem[] | null {
+    // Implement this method in the tool class if needed.
+    return null;
+  }
+
+  /**
+   * Check if connectors can be attached to the item.
+   * This method should be implemented in the tool class if its items can't be attached to.
+   *
+   * @param _item The item.
+   * @returns `true` if connectors can be attached to the item.
+   */
+  public isBindable(_item: WhiteboardItem): boolean {
+    return true;
+  }
+
+  /**
+   * Get the IDs of the items a connector is attached to.
+   * This method should be implemented in the tool class if its items can be attached to other items.
+   *
+   * @param _item The connector.
+   * @returns The IDs of the items the connector is attached to.
+   */
+  public getBoundItemIds(_item: WhiteboardItem): string[] {
+    // Implement this method in the tool class if needed.
+    return [];
+  }
+
+  /**
+   * Move a connector so that it follows the items it is attached to.
+   * This method should be implemented in the tool class if its items can be attached to other items.
+   *
+   * @param item The connector.
+   * @returns The updated connector, or the same item if nothing changed.
+   */
+  public followBoundItems(item: WhiteboardItem): WhiteboardItem {
+    // Implement this method in the tool class if needed.
+    return item;
+  }
+
+  /**
+   * Detach a connector from some items.
+   * This method should be implemented in the tool class if its items can be attached to other items.
+   *
+   * @param item The connector.
+   * @param _itemIds The IDs of the items to detach the connector from.
+   * @returns The updated connector, or the same item if nothing changed.
+   */
+  public unbindItems(item: WhiteboardItem, _itemIds: string[]): WhiteboardItem {
+    // Implement this method in the tool class if needed.
+    return item;
+  }
+
+  /**
+   * Get the options to edit the text of the item in place.
+   * This method should be implemented in the tool class if its items have a text.
+   *
+   * @param _item The item.
+   * @returns The options of the text editor, or `null` if the item has no text.
+   */
+  public getTextEditingOptions(
+    _item: WhiteboardItem
+  ): TextEditingOptions | null {
+    // Implement this method in the tool class if needed.
+    return null;
+  }
+
+  /**
+   * Change the text of the item.
+   * This method should be implemented in the tool class if its items have a text.
+   *
+   * @param item The item.
+   * @param _text The new text.
+   * @returns The updated item.
+   */
+  public setItemText(item: WhiteboardItem, _text: string): WhiteboardItem {
+    // Implement this method in the tool class if needed.
+    return item;
+  }
+
+  /**
+   * Get the SVG markup of the item.
+   * This method should be implemented in the tool class if the item can be exported.
+   * The markup uses the coordinates of the item on the whiteboard, without its rotation, that is applied by the caller.
+   *
+   * @param _item The item to export.
+   * @returns The SVG markup of the item or `null` if it can't be exported.
+   */
+  public toSvg(_item: WhiteboardItem): string | null {
+    // Implement this method in the tool class to export the item if needed.
+    return null;
+  }
+
+  /**
+   * Load the external resources needed to draw the item, like pictures.
+   * This method should be implemented in the tool class if `drawItem` can't draw the item synchronously.
+   * It is called before drawing the item in an export.
+   *
+   * @param _item The item to load the resources of.
+   * @returns A promise resolved once the item can be drawn.
+   */
+  public async loadItemResources(_item: WhiteboardItem): Promise<void> {
+    // Implement this method in the tool class if needed.
+  }
+
   /**
    * Called when the tool is selected.
    * This method should be implemented in the tool class if needed.
@@ -181,6 +356,25 @@ abstract class SimpleWhiteboardTool
     // Implement this method in the tool class if needed.
   }
 
+  /**
+   * Called when drawing is interrupted before the mouse is released, like when the touch is cancelled or the tool is changed.
+   * This method should be implemented in the tool class if it needs to clean up what `handleDrawingStart` started.
+   */
+  public handleDrawingCancel(): void {
+    // Implement this method in the tool class if needed.
+  }
+
+  /**
+   * Called when the canvas is double-clicked.
+   * This method should be implemented in the tool class if needed.
+   *
+   * @param _x The x coordinate of the mouse.
+   * @param _y The y coordinate of the mouse.
+   */
+  public handleDoubleClick(_x: number, _y: number): void {
+    // Implement this method in the tool class if needed.
+  }
+
   /**
    * Get the coordinates of the item.
    * This method should be implemented in the tool class if needed.
@@ -211,6 +405,64 @@ abstract class SimpleWhiteboardTool
     return item;
   }
 
+  /**
+   * Resize the item so that it fits in a new bounding rect.
+   * This method should be implemented in the tool class if the item can be resized.
+   * The bounding rect is the one returned by `getBoundingRect` after the resize.
+   *
+   * @param item The item to resize.
+   * @param _boundingRect The new bounding rect of the item.
+   * @returns The resized item.
+   */
+  public resizeItem(
+    item: WhiteboardItem,
+    _boundingRect: BoundingRect
+  ): WhiteboardItem {
+    // Implement this method in the tool class if needed.
+    return item;
+  }
+
+  /**
+   * Check if the item can be resized and rotated using the handles of the Pointer tool.
+   * This method should be implemented in the tool class if the item has no geometry of its own.
+   *
+   * @param _item The item.
+   * @returns `true` if the handles are available for the item.
+   */
+  public isTransformable(_item: WhiteboardItem): boolean {
+    return true;
+  }
+
+  /**
+   * Get the vertices of the item, that can be moved one by one using handles of the Pointer tool.
+   * This method should be implemented in the tool class if the item is made of editable points.
+   *
+   * @param _item The item.
+   * @returns The vertices of the item, before applying its rotation, or `null` if they can't be edited.
+   */
+  public getVertices(_item: WhiteboardItem): Point[] | null {
+    // Implement this method in the tool class if needed.
+    return null;
+  }
+
+  /**
+   * Move a vertex of the item.
+   * This method should be implemented in the tool class if `getVertices` is.
+   *
+   * @param item The item.
+   * @param _index The index of the vertex, in the array returned by `getVertices`.
+   * @param _point The new position of the vertex, before applying the rotation of the item.
+   * @returns The updated item.
+   */
+  public moveVertex(
+    item: WhiteboardItem,
+    _index: number,
+    _point: Point
+  ): WhiteboardItem {
+    // Implement this method in the tool class if needed.
+    return item;
+  }
+
   /**
    * Render the tool options.
    * This method should be implemented in the tool class if needed.
@@ -227,6 +479,37 @@ abstract class SimpleWhiteboardTool
     return null;
   }
 
+  /**
+   * Render the buttons that change the drawing order of items, to be used in the tool options.
+   *
+   * @param itemIds The IDs of the items to move.
+   * @returns The template result with the buttons or `null` if there is no whiteboard.
+   */
+  protected renderOrderButtons(itemIds: string[]): TemplateResult | null {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return null;
+    }
+
+    return html`
+      <p>Order:</p>
+      <p>
+        <button @click=${() => simpleWhiteboard.bringToFront(itemIds)}>
+          To front
+        </button>
+        <button @click=${() => simpleWhiteboard.bringForward(itemIds)}>
+          Forward
+        </button>
+        <button @click=${() => simpleWhiteboard.sendBackward(itemIds)}>
+          Backward
+        </button>
+        <button @click=${() => simpleWhiteboard.sendToBack(itemIds)}>
+          To back
+        </button>
+      </p>
+    `;
+  }
+
   protected firstUpdated(): void {
     const simpleWhiteboard = this.lookupSimpleWhiteboardInstance();
     if (simpleWhiteboard) {
@@ -0,0 +1,96 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+import { Point, getRectsBoundingRect } from "./geometry";
+
+export type Alignment =
+  | "left"
+  | "center"
+  | "right"
+  | "top"
+  | "middle"
+  | "bottom";
+
+export type DistributionAxis = "horizontal" | "vertical";
+
+/**
+ * Get how to move rects so that they are aligned with each other.
+ * They are aligned on the edge or the center of the rect containing all of them.
+ *
+ * @param rects The rects to align.
+ * @param alignment How to align the rects.
+ * @returns The offset to apply to each rect, in the same order.
+ */
+export const getAlignmentOffsets = (
+  rects: BoundingRect[],
+  alignment: Alignment
+): Point[] => {
+  const bounds = getRectsBoundingRect(rects);
+  if (!bounds) {
+    return [];
+  }
+
+  return rects.map((rect) => {
+    switch (alignment) {
+      case "left":
+        return { x: bounds.x - rect.x, y: 0 };
+      case "center":
+        return {
+          x: bounds.x + bounds.width / 2 - (rect.x + rect.width / 2),
+          y: 0,
+        };
+      case "right":
+        return { x: bounds.x + bounds.width - (rect.x + rect.width), y: 0 };
+      case "top":
+        return { x: 0, y: bounds.y - rect.y };
+      case "middle":
+        return {
+          x: 0,
+          y: bounds.y + bounds.height / 2 - (rect.y + rect.height / 2),
+        };
+      case "bottom":
+        return { x: 0, y: bounds.y + bounds.height - (rect.y + rect.height) };
+      default:
+        return { x: 0, y: 0 };
+    }
+  });
+};
+
+/**
+ * Get how to move rects so that the spaces between them are equal on an axis.
+ * The rects keep their order, and the space they cover on the axis does not change.
+ *
+ * @param rects The rects to distribute.
+ * @param axis The axis on which the rects are distributed.
+ * @returns The offset to apply to each rect, in the same order.
+ */
+export const getDistributionOffsets = (
+  rects: BoundingRect[],
+  axis: DistributionAxis
+): Point[] => {
+  const getStart = (rect: BoundingRect) =>
+    axis === "horizontal" ? rect.x : rect.y;
+  const getSize = (rect: BoundingRect) =>
+    axis === "horizontal" ? rect.width : rect.height;
+
+  const offsets = rects.map(() => ({ x: 0, y: 0 }));
+  if (rects.length < 3) {
+    return offsets;
+  }
+
+  const order = rects
+    .map((rect, index) => ({ rect, index }))
+    .sort((a, b) => getStart(a.rect) - getStart(b.rect));
+  const start = getStart(order[0].rect);
+  const end = Math.max(...rects.map((rect) => getStart(rect) + getSize(rect)));
+  const totalSize = rects.reduce((sum, rect) => sum + getSize(rect), 0);
+  const gap = (end - start - totalSize) / (rects.length - 1);
+
+  let position = start;
+  order.forEach(({ rect, index }) => {
+    const offset = position - getStart(rect);
+    offsets[index] =
+      axis === "horizontal" ? { x: offset, y: 0 } : { x: 0, y: offset };
+    position += getSize(rect) + gap;
+  });
+
+  return offsets;
+};
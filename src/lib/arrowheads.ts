@@ -0,0 +1,198 @@
+import { Options as RoughOptions } from "roughjs/bin/core";
+import { RoughGenerator } from "roughjs/bin/generator";
+
+import { BoundingRect } from "./SimpleWhiteboardTool";
+import {
+  Point,
+  getDistance,
+  getDistanceToPolyline,
+  getPointsBoundingRect,
+  isPointInPolygon,
+} from "./geometry";
+
+export enum Arrowhead {
+  ARROW = "arrow",
+  TRIANGLE = "triangle",
+  DOT = "dot",
+  BAR = "bar",
+}
+
+export const ARROWHEAD_LABELS: Record<Arrowhead, string> = {
+  [Arrowhead.ARROW]: "Arrow",
+  [Arrowhead.TRIANGLE]: "Triangle",
+  [Arrowhead.DOT]: "Dot",
+  [Arrowhead.BAR]: "Bar",
+};
+
+/**
+ * Geometry of an arrowhead.
+ * Arrows, triangles and bars are made of points, dots are circles.
+ */
+export type ArrowheadShape =
+  | { type: "points"; points: Point[]; closed: boolean }
+  | { type: "circle"; center: Point; diameter: number };
+
+/**
+ * Angle between the line and each side of the arrow and triangle heads, in radians.
+ */
+const ARROWHEAD_ANGLE = Math.PI / 7;
+
+/**
+ * Get the size of an arrowhead, which grows with the stroke width of the line.
+ *
+ * @param strokeWidth The stroke width of the line.
+ * @returns The length of the arrowhead.
+ */
+export const getArrowheadSize = (strokeWidth: number) => 10 + strokeWidth * 3;
+
+/**
+ * Get the geometry of an arrowhead.
+ *
+ * @param arrowhead The style of the arrowhead.
+ * @param tip The end of the line the arrowhead is drawn at.
+ * @param from The other end of the line, that gives the direction of the arrowhead.
+ * @param size The length of the arrowhead.
+ * @returns The geometry of the arrowhead.
+ */
+export const getArrowheadShape = (
+  arrowhead: Arrowhead,
+  tip: Point,
+  from: Point,
+  size: number
+): ArrowheadShape => {
+  // A line without length still has a direction, so that its arrowheads can be drawn
+  const angle =
+    getDistance(tip, from) === 0
+      ? 0
+      : Math.atan2(tip.y - from.y, tip.x - from.x);
+
+  const getWing = (wingAngle: number, length: number): Point => ({
+    x: tip.x - length * Math.cos(angle + wingAngle),
+    y: tip.y - length * Math.sin(angle + wingAngle),
+  });
+
+  switch (arrowhead) {
+    case Arrowhead.TRIANGLE:
+      return {
+        type: "points",
+        points: [
+          getWing(ARROWHEAD_ANGLE, size),
+          tip,
+          getWing(-ARROWHEAD_ANGLE, size),
+        ],
+        closed: true,
+      };
+    case Arrowhead.DOT:
+      return { type: "circle", center: tip, diameter: size / 2 };
+    case Arrowhead.BAR:
+      return {
+        type: "points",
+        points: [
+          getWing(Math.PI / 2, size / 2),
+          getWing(-Math.PI / 2, size / 2),
+        ],
+        closed: false,
+      };
+    case Arrowhead.ARROW:
+    default:
+      return {
+        type: "points",
+        points: [
+          getWing(ARROWHEAD_ANGLE, size),
+          tip,
+          getWing(-ARROWHEAD_ANGLE, size),
+        ],
+        closed: false,
+      };
+  }
+};
+
+/**
+ * Generate the Rough.js shape of an arrowhead.
+ * Closed heads are filled with the color of the line.
+ *
+ * @param generator The Rough.js generator.
+ * @param shape The geometry of the arrowhead.
+ * @param options The Rough.js options of the line.
+ * @returns The Rough.js shape.
+ */
+export const generateArrowhead = (
+  generator: RoughGenerator,
+  shape: ArrowheadShape,
+  options: RoughOptions
+) => {
+  const filledOptions: RoughOptions = {
+    ...options,
+    fill: options.stroke,
+    fillStyle: "solid",
+  };
+
+  if (shape.type === "circle") {
+    return generator.circle(
+      shape.center.x,
+      shape.center.y,
+      shape.diameter,
+      filledOptions
+    );
+  }
+
+  const points = shape.points.map(({ x, y }): [number, number] => [x, y]);
+  if (shape.closed) {
+    return generator.polygon(points, filledOptions);
+  }
+  return generator.linearPath(points, options);
+};
+
+/**
+ * Get the bounding rect of an arrowhead.
+ *
+ * @param shape The geometry of the arrowhead.
+ * @param strokeWidth The stroke width of the line.
+ * @returns The bounding rect of the arrowhead.
+ */
+export const getArrowheadBoundingRect = (
+  shape: ArrowheadShape,
+  strokeWidth: number
+): BoundingRect => {
+  const halfStrokeWidth = strokeWidth / 2;
+  if (shape.type === "circle") {
+    const radius = shape.diameter / 2 + halfStrokeWidth;
+    return {
+      x: shape.center.x - radius,
+      y: shape.center.y - radius,
+      width: radius * 2,
+      height: radius * 2,
+    };
+  }
+
+  const { x, y, width, height } = getPointsBoundingRect(shape.points);
+  return {
+    x: x - halfStrokeWidth,
+    y: y - halfStrokeWidth,
+    width: width + strokeWidth,
+    height: height + strokeWidth,
+  };
+};
+
+/**
+ * Check if a point hits an arrowhead.
+ *
+ * @param shape The geometry of the arrowhead.
+ * @param point The point.
+ * @param tolerance The maximum distance between the point and the arrowhead.
+ * @returns `true` if the point hits the arrowhead.
+ */
+export const hitTestArrowhead = (
+  shape: ArrowheadShape,
+  point: Point,
+  tolerance: number
+): boolean => {
+  if (shape.type === "circle") {
+    return getDistance(point, shape.center) <= shape.diameter / 2 + tolerance;
+  }
+
+  if (shape.closed && isPointInPolygon(point, shape.points)) {
+    return true;
+  }
+  return getDistanceToPolyline(point, shape.points, shape.closed) <= tolerance;
+};
@@ -0,0 +1,96 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+import { Point, getDistance } from "./geometry";
+
+/**
+ * An end of a connector attached to an item.
+ * The anchor is relative to the unrotated bounding rect of the item:
+ * `{ x: 0, y: 0 }` is its top left corner and `{ x: 1, y: 1 }` its bottom right corner.
+ */
+export type ConnectorBinding = {
+  itemId: string;
+  anchor: Point;
+};
+
+/**
+ * Anchor points of the items: the middle of each side.
+ */
+export const ANCHORS: Point[] = [
+  { x: 0.5, y: 0 },
+  { x: 1, y: 0.5 },
+  { x: 0.5, y: 1 },
+  { x: 0, y: 0.5 },
+];
+
+/**
+ * Maximum distance between the end of a connector and an item to attach it, on the screen, in pixels.
+ */
+export const BINDING_TOLERANCE = 8;
+
+/**
+ * Maximum distance between the end of a connector and an anchor point to snap to it, on the screen, in pixels.
+ */
+export const ANCHOR_SNAP_DISTANCE = 12;
+
+/**
+ * Get the position of an anchor in a rect.
+ *
+ * @param rect The rect.
+ * @param anchor The anchor, relative to the rect.
+ * @returns The position of the anchor.
+ */
+export const getAnchorPosition = (
+  rect: BoundingRect,
+  anchor: Point
+): Point => ({
+  x: rect.x + anchor.x * rect.width,
+  y: rect.y + anchor.y * rect.height,
+});
+
+/**
+ * Get the anchor to attach a connector to, for a point close to a rect.
+ * The point snaps to an anchor point if it is close enough, or else to the closest side of the rect.
+ *
+ * @param rect The rect to attach the connector to.
+ * @param point The end of the connector.
+ * @param snapDistance The maximum distance between the point and an anchor point to snap to it.
+ * @returns The anchor, relative to the rect.
+ */
+export const getClosestAnchor = (
+  rect: BoundingRect,
+  point: Point,
+  snapDistance: number
+): Point => {
+  const anchorPoint = ANCHORS.find(
+    (anchor) =>
+      getDistance(point, getAnchorPosition(rect, anchor)) <= snapDistance
+  );
+  if (anchorPoint) {
+    return anchorPoint;
+  }
+
+  const relativeX =
+    rect.width === 0
+      ? 0.5
+      : Math.min(1, Math.max(0, (point.x - rect.x) / rect.width));
+  const relativeY =
+    rect.height === 0
+      ? 0.5
+      : Math.min(1, Math.max(0, (point.y - rect.y) / rect.height));
+
+  // Project the point on the closest side
+  const distances = [
+    { anchor: { x: relativeX, y: 0 }, distance: Math.abs(point.y - rect.y) },
+    {
+      anchor: { x: 1, y: relativeY },
+      distance: Math.abs(point.x - (rect.x + rect.width)),
+    },
+    {
+      anchor: { x: relativeX, y: 1 },
+      distance: Math.abs(point.y - (rect.y + rect.height)),
+    },
+    { anchor: { x: 0, y: relativeY }, distance: Math.abs(point.x - rect.x) },
+  ];
+  return distances.reduce((closest, side) =>
+    side.distance < closest.distance ? side : closest
+  ).anchor;
+};
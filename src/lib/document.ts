@@ -0,0 +1,225 @@
+import { WhiteboardItem } from "./SimpleWhiteboardTool";
+import { GridStyle } from "./grid";
+import { DEFAULT_LAYER_ID, Layer, createDefaultLayer } from "./layers";
+
+/**
+ * Current version of the document format.
+ * It needs to be increased each time the format of the document or of an item changes,
+ * with a migration that upgrades documents from the previous version.
+ */
+export const DOCUMENT_VERSION = 3;
+
+export type WhiteboardViewport = {
+  x: number;
+  y: number;
+  zoom: number;
+};
+
+/**
+ * Settings of the board that are saved with the document.
+ */
+export interface WhiteboardSettings {
+  gridSize?: number;
+  gridStyle?: GridStyle;
+  snapToGrid?: boolean;
+}
+
+export interface WhiteboardDocument {
+  version: number;
+  items: WhiteboardItem[];
+  // Layers, from bottom to top
+  layers: Layer[];
+  viewport: WhiteboardViewport;
+  settings: WhiteboardSettings;
+  // Free-form data of the host application (title, author, …)
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A document of any version.
+ * Only its version and its items are known here, as its shape and the shape of its items depend on its version.
+ */
+type VersionedDocument = {
+  version: number;
+  items: WhiteboardItem[];
+  [key: string]: unknown;
+};
+
+/**
+ * A migration upgrades a document from one version to the next one.
+ */
+type Migration = (document: VersionedDocument) => VersionedDocument;
+
+/**
+ * Migrations, indexed by the version they upgrade from.
+ */
+const migrations: Record<number, Migration> = {
+  // Version 0 is a bare array of items, as returned by `getItems`
+  0: ({ items }) => ({
+    version: 1,
+    items,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    settings: {},
+    metadata: {},
+  }),
+  // Circles only had a diameter, they are now ellipses with a width and a height
+  1: (document) => ({
+    ...document,
+    version: 2,
+    items: document.items.map(
+      (item: WhiteboardItem & { diameter?: number }) => {
+        if (item.kind !== "circle" || typeof item.diameter !== "number") {
+          return item;
+        }
+        const { diameter, ...ellipse } = item;
+        return { ...ellipse, width: diameter, height: diameter };
+      }
+    ),
+  }),
+  // Items were all drawn on the same level, they are now on layers
+  2: (document) => ({
+    ...document,
+    version: 3,
+    layers: [createDefaultLayer()],
+    items: document.items.map((item: WhiteboardItem) => ({
+      ...item,
+      layerId: DEFAULT_LAYER_ID,
+    })),
+  }),
+};
+
+/**
+ * Check if a document has a version and items.
+ *
+ * @param document The document.
+ * @returns `true` if the document has a version and items.
+ */
+const isVersionedDocument = (
+  document: unknown
+): document is VersionedDocument =>
+  typeof document === "object" &&
+  document !== null &&
+  typeof (document as VersionedDocument).version === "number" &&
+  Array.isArray((document as VersionedDocument).items);
+
+/**
+ * Read a document, along with its version.
+ *
+ * @param document The document ; it can also be a bare array of items.
+ * @returns The document, a bare array of items being read as a document of version 0.
+ */
+const readVersionedDocument = (document: unknown): VersionedDocument => {
+  if (Array.isArray(document)) {
+    return { version: 0, items: document };
+  }
+  if (!isVersionedDocument(document)) {
+    throw new Error("Invalid document: missing version or items");
+  }
+  return document;
+};
+
+// Type guards for the parts of a document, as imported documents can come from anywhere
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isItem = (item: unknown): item is WhiteboardItem =>
+  isRecord(item) &&
+  typeof item.kind === "string" &&
+  typeof item.id === "string";
+
+const isLayer = (layer: unknown): layer is Layer =>
+  isRecord(layer) &&
+  typeof layer.id === "string" &&
+  typeof layer.name === "string" &&
+  typeof layer.visible === "boolean" &&
+  typeof layer.locked === "boolean" &&
+  isFiniteNumber(layer.opacity);
+
+const isViewport = (viewport: unknown): viewport is WhiteboardViewport =>
+  isRecord(viewport) &&
+  isFiniteNumber(viewport.x) &&
+  isFiniteNumber(viewport.y) &&
+  isFiniteNumber(viewport.zoom) &&
+  viewport.zoom > 0;
+
+const isSettings = (settings: unknown): settings is WhiteboardSettings =>
+  isRecord(settings) &&
+  (settings.gridSize === undefined || isFiniteNumber(settings.gridSize)) &&
+  (settings.gridStyle === undefined ||
+    ["none", "dots", "lines"].includes(settings.gridStyle as string)) &&
+  (settings.snapToGrid === undefined ||
+    typeof settings.snapToGrid === "boolean");
+
+/**
+ * Check that a document has the shape of the current version.
+ * Missing parts are filled with their defaults.
+ *
+ * @param document The document, in the current version.
+ * @returns The checked document.
+ * @throws If a part of the document is invalid.
+ */
+const validateDocument = (document: VersionedDocument): WhiteboardDocument => {
+  const {
+    items,
+    layers = [createDefaultLayer()],
+    viewport = { x: 0, y: 0, zoom: 1 },
+    settings = {},
+    metadata = {},
+  } = document;
+
+  if (!items.every(isItem)) {
+    throw new Error("Invalid document: invalid items");
+  }
+  if (!Array.isArray(layers) || !layers.every(isLayer)) {
+    throw new Error("Invalid document: invalid layers");
+  }
+  if (!isViewport(viewport)) {
+    throw new Error("Invalid document: invalid viewport");
+  }
+  if (!isSettings(settings)) {
+    throw new Error("Invalid document: invalid settings");
+  }
+  if (!isRecord(metadata)) {
+    throw new Error("Invalid document: invalid metadata");
+  }
+
+  return {
+    version: document.version,
+    items,
+    layers: layers.length > 0 ? layers : [createDefaultLayer()],
+    viewport,
+    settings,
+    metadata,
+  };
+};
+
+/**
+ * Upgrade a document to the current version, applying each migration step by step.
+ *
+ * @param document The document to upgrade ; it can also be a bare array of items.
+ * @returns The document in the current version.
+ */
+export const migrateDocument = (document: unknown): WhiteboardDocument => {
+  let migratedDocument = readVersionedDocument(document);
+
+  if (migratedDocument.version > DOCUMENT_VERSION) {
+    throw new Error(
+      `Unsupported document version: ${migratedDocument.version} (latest supported version is ${DOCUMENT_VERSION})`
+    );
+  }
+
+  while (migratedDocument.version < DOCUMENT_VERSION) {
+    const migration = migrations[migratedDocument.version];
+    if (!migration) {
+      throw new Error(
+        `No migration found from document version ${migratedDocument.version}`
+      );
+    }
+    migratedDocument = migration(migratedDocument);
+  }
+
+  return validateDocument(migratedDocument);
+};
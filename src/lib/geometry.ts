@@ -0,0 +1,317 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+/**
+ * Shrink a rect on each side.
+ * A negative padding grows the rect.
+ *
+ * @param rect The rect to shrink.
+ * @param padding The padding to remove on each side.
+ * @returns The shrunk rect.
+ */
+export const shrinkRect = (
+  rect: BoundingRect,
+  padding: number
+): BoundingRect => ({
+  x: rect.x + padding,
+  y: rect.y + padding,
+  width: Math.max(0, rect.width - padding * 2),
+  height: Math.max(0, rect.height - padding * 2),
+});
+
+/**
+ * Map a point from a rect to another one, keeping its relative position.
+ * If the source rect is flat on one axis, the offset on that axis is kept as is.
+ *
+ * @param point The point to map.
+ * @param from The rect the point is relative to.
+ * @param to The rect to map the point to.
+ * @returns The mapped point.
+ */
+export const mapPointBetweenRects = (
+  point: Point,
+  from: BoundingRect,
+  to: BoundingRect
+): Point => {
+  const scaleX = from.width === 0 ? 1 : to.width / from.width;
+  const scaleY = from.height === 0 ? 1 : to.height / from.height;
+  return {
+    x: to.x + (point.x - from.x) * scaleX,
+    y: to.y + (point.y - from.y) * scaleY,
+  };
+};
+
+/**
+ * Get the center of a rect.
+ *
+ * @param rect The rect.
+ * @returns The center of the rect.
+ */
+export const getRectCenter = (rect: BoundingRect): Point => ({
+  x: rect.x + rect.width / 2,
+  y: rect.y + rect.height / 2,
+});
+
+/**
+ * Rotate a point around a center.
+ *
+ * @param point The point to rotate.
+ * @param center The center of the rotation.
+ * @param angle The angle of the rotation, in radians (clockwise on the canvas).
+ * @returns The rotated point.
+ */
+export const rotatePoint = (
+  point: Point,
+  center: Point,
+  angle: number
+): Point => {
+  if (!angle) {
+    return point;
+  }
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+};
+
+/**
+ * Get the smallest rect that contains some points.
+ *
+ * @param points The points to contain ; it should not be empty.
+ * @returns The rect containing all the points.
+ */
+export const getPointsBoundingRect = (points: Point[]): BoundingRect => {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+};
+
+/**
+ * Get the axis-aligned bounding rect of a rect rotated around its center.
+ *
+ * @param rect The rect to rotate.
+ * @param angle The angle of the rotation, in radians.
+ * @returns The axis-aligned rect containing the rotated rect.
+ */
+export const getRotatedRectBounds = (
+  rect: BoundingRect,
+  angle: number
+): BoundingRect => {
+  if (!angle) {
+    return rect;
+  }
+  const center = getRectCenter(rect);
+  return getPointsBoundingRect(
+    getRectCorners(rect).map((corner) => rotatePoint(corner, center, angle))
+  );
+};
+
+/**
+ * Get the smallest rect that contains some rects.
+ *
+ * @param rects The rects to contain.
+ * @returns The rect containing all the rects or `null` if there is no rect.
+ */
+export const getRectsBoundingRect = (
+  rects: BoundingRect[]
+): BoundingRect | null => {
+  if (rects.length === 0) {
+    return null;
+  }
+  return getPointsBoundingRect(
+    rects.flatMap(({ x, y, width, height }) => [
+      { x, y },
+      { x: x + width, y: y + height },
+    ])
+  );
+};
+
+/**
+ * Get the distance between two points.
+ *
+ * @param a The first point.
+ * @param b The second point.
+ * @returns The distance between the points.
+ */
+export const getDistance = (a: Point, b: Point): number =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Get the distance between a point and a segment.
+ *
+ * @param point The point.
+ * @param a The start of the segment.
+ * @param b The end of the segment.
+ * @returns The distance between the point and the closest point of the segment.
+ */
+export const getDistanceToSegment = (point: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return getDistance(point, a);
+  }
+
+  const t = Math.max(
+    0,
+    Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared)
+  );
+  return getDistance(point, { x: a.x + t * dx, y: a.y + t * dy });
+};
+
+/**
+ * Get the part of a segment that is inside a circle.
+ *
+ * @param a The start of the segment.
+ * @param b The end of the segment.
+ * @param center The center of the circle.
+ * @param radius The radius of the circle.
+ * @returns The start and the end of the part, as ratios of the segment from `a` to `b`, or `null` if the segment is outside the circle.
+ */
+export const getSegmentPartInCircle = (
+  a: Point,
+  b: Point,
+  center: Point,
+  radius: number
+): [number, number] | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const c = fx * fx + fy * fy - radius * radius;
+  if (lengthSquared === 0) {
+    return c <= 0 ? [0, 1] : null;
+  }
+
+  // Solve |a + t * (b - a) - center| = radius
+  const halfB = fx * dx + fy * dy;
+  const discriminant = halfB * halfB - lengthSquared * c;
+  if (discriminant < 0) {
+    return null;
+  }
+  const root = Math.sqrt(discriminant);
+  const start = (-halfB - root) / lengthSquared;
+  const end = (-halfB + root) / lengthSquared;
+  if (end < 0 || start > 1) {
+    return null;
+  }
+  return [Math.max(0, start), Math.min(1, end)];
+};
+
+/**
+ * Get the distance between a point and a polyline.
+ *
+ * @param point The point.
+ * @param points The points of the polyline.
+ * @param closed Whether the last point is connected to the first one.
+ * @returns The distance between the point and the closest segment of the polyline.
+ */
+export const getDistanceToPolyline = (
+  point: Point,
+  points: Point[],
+  closed = false
+): number => {
+  if (points.length === 0) {
+    return Infinity;
+  }
+  if (points.length === 1) {
+    return getDistance(point, points[0]);
+  }
+
+  let distance = Infinity;
+  const segmentsCount = closed ? points.length : points.length - 1;
+  for (let i = 0; i < segmentsCount; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    distance = Math.min(distance, getDistanceToSegment(point, a, b));
+  }
+  return distance;
+};
+
+/**
+ * Check if a point is inside a polygon, using the even-odd rule.
+ *
+ * @param point The point.
+ * @param polygon The points of the polygon.
+ * @returns `true` if the point is inside the polygon.
+ */
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Check if a point is inside a rect.
+ *
+ * @param point The point.
+ * @param rect The rect.
+ * @param tolerance Distance by which the rect is grown on each side.
+ * @returns `true` if the point is inside the rect.
+ */
+export const isPointInRect = (
+  point: Point,
+  rect: BoundingRect,
+  tolerance = 0
+): boolean =>
+  point.x >= rect.x - tolerance &&
+  point.x <= rect.x + rect.width + tolerance &&
+  point.y >= rect.y - tolerance &&
+  point.y <= rect.y + rect.height + tolerance;
+
+/**
+ * Get the corners of a rect, clockwise from the top left corner.
+ *
+ * @param rect The rect.
+ * @returns The corners of the rect.
+ */
+export const getRectCorners = (rect: BoundingRect): Point[] => {
+  const { x, y, width, height } = rect;
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+};
+
+/**
+ * Sample points along a segment, so that consecutive points are at most `step` apart.
+ *
+ * @param a The start of the segment.
+ * @param b The end of the segment.
+ * @param step The maximum distance between two points.
+ * @returns The sampled points, including both ends.
+ */
+export const sampleSegment = (a: Point, b: Point, step: number): Point[] => {
+  const count = Math.max(1, Math.ceil(getDistance(a, b) / Math.max(step, 1)));
+  return Array.from({ length: count + 1 }, (_, i) => ({
+    x: a.x + ((b.x - a.x) * i) / count,
+    y: a.y + ((b.y - a.y) * i) / count,
+  }));
+};
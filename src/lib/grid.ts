@@ -0,0 +1,88 @@
+import { Point } from "./geometry";
+
+export type GridStyle = "none" | "dots" | "lines";
+
+/**
+ * Default distance between two lines of the grid, in world coordinates.
+ */
+export const DEFAULT_GRID_SIZE = 20;
+
+/**
+ * Minimum distance between two lines of the grid on the screen, in pixels.
+ * When zoomed out, only some lines are drawn, so that the grid does not fill the canvas.
+ */
+const MIN_GRID_SPACING = 8;
+
+const GRID_COLOR = "#e3e3ef";
+
+/**
+ * Snap a point to the closest intersection of the grid.
+ *
+ * @param point The point, in world coordinates.
+ * @param gridSize The distance between two lines of the grid.
+ * @returns The snapped point.
+ */
+export const snapPointToGrid = (point: Point, gridSize: number): Point => {
+  if (gridSize <= 0) {
+    return point;
+  }
+  return {
+    x: Math.round(point.x / gridSize) * gridSize,
+    y: Math.round(point.y / gridSize) * gridSize,
+  };
+};
+
+/**
+ * Draw the grid on the canvas.
+ * The grid follows the position and zoom of the canvas, like the items.
+ *
+ * @param context The canvas rendering context.
+ * @param canvasCoords The position and zoom of the canvas.
+ * @param gridSize The distance between two lines of the grid, in world coordinates.
+ * @param style The style of the grid.
+ */
+export const drawGrid = (
+  context: CanvasRenderingContext2D,
+  canvasCoords: { x: number; y: number; zoom: number },
+  gridSize: number,
+  style: GridStyle
+): void => {
+  if (style === "none" || gridSize <= 0) {
+    return;
+  }
+
+  let spacing = gridSize * canvasCoords.zoom;
+  while (spacing < MIN_GRID_SPACING) {
+    spacing *= 2;
+  }
+
+  const { width, height } = context.canvas;
+  // Position of the first line on the screen, so that a line goes through the origin of the world
+  const startX = (((canvasCoords.x % spacing) + spacing) % spacing) - spacing;
+  const startY = (((canvasCoords.y % spacing) + spacing) % spacing) - spacing;
+
+  context.save();
+  context.fillStyle = GRID_COLOR;
+  context.strokeStyle = GRID_COLOR;
+  context.lineWidth = 1;
+  context.beginPath();
+  if (style === "lines") {
+    for (let x = startX; x <= width; x += spacing) {
+      context.moveTo(Math.round(x) + 0.5, 0);
+      context.lineTo(Math.round(x) + 0.5, height);
+    }
+    for (let y = startY; y <= height; y += spacing) {
+      context.moveTo(0, Math.round(y) + 0.5);
+      context.lineTo(width, Math.round(y) + 0.5);
+    }
+    context.stroke();
+  } else {
+    for (let x = startX; x <= width; x += spacing) {
+      for (let y = startY; y <= height; y += spacing) {
+        context.rect(Math.round(x) - 1, Math.round(y) - 1, 2, 2);
+      }
+    }
+    context.fill();
+  }
+  context.restore();
+};
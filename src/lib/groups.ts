@@ -0,0 +1,70 @@
+import { WhiteboardItem } from "./SimpleWhiteboardTool";
+
+/**
+ * Kind of the items that group other items.
+ */
+export const GROUP_KIND = "group";
+
+/**
+ * An item that groups other items, so that they are selected and moved together.
+ * A group has no geometry of its own: its position and size are the ones of its members, which can be groups too.
+ */
+export interface GroupItem extends WhiteboardItem {
+  options: {
+    childIds: string[];
+  };
+}
+
+export const isGroupItem = (item: WhiteboardItem): item is GroupItem =>
+  item.kind === GROUP_KIND;
+
+/**
+ * Find the group an item directly belongs to.
+ *
+ * @param items All the items.
+ * @param itemId The ID of the item.
+ * @returns The group containing the item, or `null` if it is not in a group.
+ */
+export const findParentGroup = (
+  items: WhiteboardItem[],
+  itemId: string
+): GroupItem | null => {
+  const parent = items.find(
+    (item) => isGroupItem(item) && item.options.childIds.includes(itemId)
+  );
+  return parent ? (parent as GroupItem) : null;
+};
+
+/**
+ * Get the IDs of all the members of a group, including the members of its nested groups.
+ *
+ * @param items All the items.
+ * @param groupId The ID of the group.
+ * @returns The IDs of the members that exist, in no particular order.
+ */
+export const getGroupMemberIds = (
+  items: WhiteboardItem[],
+  groupId: string
+): string[] => {
+  const memberIds: string[] = [];
+  const visit = (id: string) => {
+    const group = items.find((item) => item.id === id);
+    if (!group || !isGroupItem(group)) {
+      return;
+    }
+    group.options.childIds.forEach((childId) => {
+      // A group can't contain itself, but documents can be edited by hand
+      if (
+        memberIds.includes(childId) ||
+        childId === groupId ||
+        !items.some((item) => item.id === childId)
+      ) {
+        return;
+      }
+      memberIds.push(childId);
+      visit(childId);
+    });
+  };
+  visit(groupId);
+  return memberIds;
+};
@@ -0,0 +1,165 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+
+/**
+ * A guide line, shown when an item is aligned with other items.
+ * A guide on the `x` axis is a vertical line at the `x` position, going from `start` to `end` on the `y` axis.
+ */
+export type Guide = {
+  axis: "x" | "y";
+  position: number;
+  start: number;
+  end: number;
+};
+
+/**
+ * Offsets that align a rect with other rects on each axis, or `null` if the rect is not close enough to any of them.
+ */
+export type AlignmentSnap = {
+  offsetX: number | null;
+  offsetY: number | null;
+  guides: Guide[];
+};
+
+/**
+ * Maximum distance between two aligned edges or centers to snap them, on the screen, in pixels.
+ */
+export const GUIDE_SNAP_DISTANCE = 6;
+
+/**
+ * Two positions closer than this are considered aligned, to absorb rounding errors.
+ */
+const ALIGNMENT_EPSILON = 0.01;
+
+const GUIDE_COLOR = "#ff1a40";
+
+/**
+ * Get the positions of the edges and the center of a rect on an axis.
+ *
+ * @param rect The rect.
+ * @param axis The axis.
+ * @returns The positions of the start edge, the center and the end edge.
+ */
+const getAxisPositions = (rect: BoundingRect, axis: "x" | "y"): number[] => {
+  const start = axis === "x" ? rect.x : rect.y;
+  const size = axis === "x" ? rect.width : rect.height;
+  return [start, start + size / 2, start + size];
+};
+
+/**
+ * Find how to move a rect so that its edges or its center are aligned with the ones of other rects.
+ * The closest alignment is used on each axis.
+ *
+ * @param rect The moved rect ; it can have no size to align a point.
+ * @param targets The rects to align with.
+ * @param tolerance The maximum distance between two positions to align them.
+ * @returns The offsets to apply to the rect and the guides to display once it is moved.
+ */
+export const findAlignmentSnap = (
+  rect: BoundingRect,
+  targets: BoundingRect[],
+  tolerance: number
+): AlignmentSnap => {
+  const findOffset = (axis: "x" | "y"): number | null => {
+    const positions = getAxisPositions(rect, axis);
+    let offset: number | null = null;
+    targets.forEach((target) => {
+      getAxisPositions(target, axis).forEach((targetPosition) => {
+        positions.forEach((position) => {
+          const distance = targetPosition - position;
+          if (
+            Math.abs(distance) <= tolerance &&
+            (offset === null || Math.abs(distance) < Math.abs(offset))
+          ) {
+            offset = distance;
+          }
+        });
+      });
+    });
+    return offset;
+  };
+
+  const offsetX = findOffset("x");
+  const offsetY = findOffset("y");
+  const snappedRect = {
+    ...rect,
+    x: rect.x + (offsetX || 0),
+    y: rect.y + (offsetY || 0),
+  };
+
+  // A guide goes through the aligned position, from the snapped rect to the farthest target aligned with it
+  const guides: Guide[] = [];
+  const addGuides = (axis: "x" | "y") => {
+    const otherAxis = axis === "x" ? "y" : "x";
+    getAxisPositions(snappedRect, axis).forEach((position) => {
+      targets.forEach((target) => {
+        const isAligned = getAxisPositions(target, axis).some(
+          (targetPosition) =>
+            Math.abs(targetPosition - position) < ALIGNMENT_EPSILON
+        );
+        if (!isAligned) {
+          return;
+        }
+        const [rectStart, , rectEnd] = getAxisPositions(snappedRect, otherAxis);
+        const [targetStart, , targetEnd] = getAxisPositions(target, otherAxis);
+        const start = Math.min(rectStart, targetStart);
+        const end = Math.max(rectEnd, targetEnd);
+
+        const existingGuide = guides.find(
+          (guide) =>
+            guide.axis === axis &&
+            Math.abs(guide.position - position) < ALIGNMENT_EPSILON
+        );
+        if (existingGuide) {
+          existingGuide.start = Math.min(existingGuide.start, start);
+          existingGuide.end = Math.max(existingGuide.end, end);
+        } else {
+          guides.push({ axis, position, start, end });
+        }
+      });
+    });
+  };
+  if (offsetX !== null) {
+    addGuides("x");
+  }
+  if (offsetY !== null) {
+    addGuides("y");
+  }
+
+  return { offsetX, offsetY, guides };
+};
+
+/**
+ * Draw guide lines on the canvas.
+ *
+ * @param context The canvas rendering context.
+ * @param guides The guides to draw.
+ * @param toCanvasCoords Converts world coordinates to canvas coordinates, to follow the position and zoom of the canvas.
+ */
+export const drawGuides = (
+  context: CanvasRenderingContext2D,
+  guides: Guide[],
+  toCanvasCoords: (x: number, y: number) => { x: number; y: number }
+): void => {
+  if (guides.length === 0) {
+    return;
+  }
+
+  context.save();
+  context.strokeStyle = GUIDE_COLOR;
+  context.lineWidth = 1;
+  context.beginPath();
+  guides.forEach(({ axis, position, start, end }) => {
+    const from =
+      axis === "x"
+        ? toCanvasCoords(position, start)
+        : toCanvasCoords(start, position);
+    const to =
+      axis === "x"
+        ? toCanvasCoords(position, end)
+        : toCanvasCoords(end, position);
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+  });
+  context.stroke();
+  context.restore();
+};
@@ -0,0 +1,175 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+import { Point } from "./geometry";
+
+export enum ResizeHandle {
+  TOP_LEFT = "top-left",
+  TOP = "top",
+  TOP_RIGHT = "top-right",
+  RIGHT = "right",
+  BOTTOM_RIGHT = "bottom-right",
+  BOTTOM = "bottom",
+  BOTTOM_LEFT = "bottom-left",
+  LEFT = "left",
+}
+
+/**
+ * Size of the handles on the screen, in pixels.
+ */
+export const HANDLE_SIZE = 8;
+
+/**
+ * Distance between the top of the selection box and the rotation handle on the screen, in pixels.
+ */
+export const ROTATION_HANDLE_DISTANCE = 24;
+
+/**
+ * Minimum size of an item that is resized, in pixels.
+ */
+const MIN_RESIZE_SIZE = 1;
+
+/**
+ * Get the position of each resize handle of a rect.
+ *
+ * @param rect The rect to get the handles of.
+ * @returns The position of the center of each handle.
+ */
+export const getResizeHandlePositions = (
+  rect: BoundingRect
+): Record<ResizeHandle, Point> => {
+  const { x, y, width, height } = rect;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+
+  return {
+    [ResizeHandle.TOP_LEFT]: { x, y },
+    [ResizeHandle.TOP]: { x: centerX, y },
+    [ResizeHandle.TOP_RIGHT]: { x: x + width, y },
+    [ResizeHandle.RIGHT]: { x: x + width, y: centerY },
+    [ResizeHandle.BOTTOM_RIGHT]: { x: x + width, y: y + height },
+    [ResizeHandle.BOTTOM]: { x: centerX, y: y + height },
+    [ResizeHandle.BOTTOM_LEFT]: { x, y: y + height },
+    [ResizeHandle.LEFT]: { x, y: centerY },
+  };
+};
+
+/**
+ * Get the position of the rotation handle of a rect, before applying the rotation of the item.
+ *
+ * @param rect The rect to get the rotation handle of.
+ * @param zoom The current zoom level, so that the handle stays at the same distance on the screen.
+ * @returns The position of the center of the rotation handle.
+ */
+export const getRotationHandlePosition = (
+  rect: BoundingRect,
+  zoom: number
+): Point => ({
+  x: rect.x + rect.width / 2,
+  y: rect.y - ROTATION_HANDLE_DISTANCE / zoom,
+});
+
+/**
+ * Find the resize handle at a given position.
+ *
+ * @param rect The rect the handles belong to.
+ * @param x The x coordinate to look at.
+ * @param y The y coordinate to look at.
+ * @param tolerance The maximum distance between the position and the center of a handle.
+ * @returns The handle at the given position or `null` if there is none.
+ */
+export const findResizeHandle = (
+  rect: BoundingRect,
+  x: number,
+  y: number,
+  tolerance: number
+): ResizeHandle | null => {
+  const positions = getResizeHandlePositions(rect);
+  const handle = (Object.keys(positions) as ResizeHandle[]).find((key) => {
+    const position = positions[key];
+    return (
+      Math.abs(position.x - x) <= tolerance &&
+      Math.abs(position.y - y) <= tolerance
+    );
+  });
+
+  return handle || null;
+};
+
+/**
+ * Compute the new rect when a resize handle is moved.
+ * The opposite side (or corner) of the rect stays in place.
+ *
+ * @param rect The rect before the resize.
+ * @param handle The handle that is moved.
+ * @param x The new x coordinate of the handle.
+ * @param y The new y coordinate of the handle.
+ * @param keepAspectRatio Whether the aspect ratio of the rect should be kept.
+ * @returns The resized rect.
+ */
+export const resizeRect = (
+  rect: BoundingRect,
+  handle: ResizeHandle,
+  x: number,
+  y: number,
+  keepAspectRatio = false
+): BoundingRect => {
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+
+  const movesLeft = handle.endsWith("left");
+  const movesRight = handle.endsWith("right");
+  const movesTop = handle.startsWith("top");
+  const movesBottom = handle.startsWith("bottom");
+
+  if (movesLeft) {
+    left = Math.min(x, right - MIN_RESIZE_SIZE);
+  }
+  if (movesRight) {
+    right = Math.max(x, left + MIN_RESIZE_SIZE);
+  }
+  if (movesTop) {
+    top = Math.min(y, bottom - MIN_RESIZE_SIZE);
+  }
+  if (movesBottom) {
+    bottom = Math.max(y, top + MIN_RESIZE_SIZE);
+  }
+
+  let width = right - left;
+  let height = bottom - top;
+
+  if (!keepAspectRatio || rect.width === 0 || rect.height === 0) {
+    return { x: left, y: top, width, height };
+  }
+
+  const ratio = rect.width / rect.height;
+  const isHorizontal = movesLeft || movesRight;
+  const isVertical = movesTop || movesBottom;
+
+  if (isHorizontal && isVertical) {
+    // Corner: follow the axis that moved the most
+    if (width / ratio > height) {
+      height = width / ratio;
+    } else {
+      width = height * ratio;
+    }
+  } else if (isHorizontal) {
+    height = width / ratio;
+  } else {
+    width = height * ratio;
+  }
+
+  // Anchor the rect to the opposite side, and center it on the other axis for edge handles
+  const newX = movesLeft
+    ? right - width
+    : movesRight
+    ? left
+    : rect.x + (rect.width - width) / 2;
+  const newY = movesTop
+    ? bottom - height
+    : movesBottom
+    ? top
+    : rect.y + (rect.height - height) / 2;
+
+  return { x: newX, y: newY, width, height };
+};
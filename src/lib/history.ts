@@ -0,0 +1,220 @@
+import { WhiteboardItem } from "./SimpleWhiteboardTool";
+import { Layer } from "./layers";
+
+/**
+ * A change made to a single item.
+ * `before` is `null` if the item was added, `after` is `null` if the item was removed.
+ * `newIndex` is set if the item was moved in the drawing order, `index` being its position before the move.
+ */
+export type ItemChange = {
+  itemId: string;
+  before: WhiteboardItem | null;
+  after: WhiteboardItem | null;
+  index: number;
+  newIndex?: number;
+};
+
+/**
+ * A change made to a layer along with its items, so that undoing it restores the layer of the items.
+ * `before` is `null` if the layer was added, `after` is `null` if the layer was removed.
+ */
+export type LayerChange = {
+  layerId: string;
+  before: Layer | null;
+  after: Layer | null;
+  index: number;
+};
+
+export type HistoryEntry = {
+  changes: ItemChange[];
+  layerChanges: LayerChange[];
+  mergeKey: string | null;
+  // The gesture during which the entry was recorded, or `null` if it was recorded outside of a gesture
+  gesture: number | null;
+};
+
+/**
+ * Maximum number of entries kept in the undo stack.
+ */
+export const HISTORY_MAX_ENTRIES = 100;
+
+/**
+ * Merge a change into a list of changes.
+ * If the item was already changed, the first `before` state and position are kept and only the `after` state and position are updated.
+ *
+ * @param changes The list of changes to merge the change into.
+ * @param change The change to merge.
+ * @returns The merged list of changes.
+ */
+export const mergeChange = (
+  changes: ItemChange[],
+  change: ItemChange
+): ItemChange[] => {
+  const existing = changes.find((c) => c.itemId === change.itemId);
+  if (!existing) {
+    return [...changes, change];
+  }
+
+  return changes
+    .map((c) =>
+      c === existing
+        ? { ...c, after: change.after, newIndex: change.newIndex ?? c.newIndex }
+        : c
+    )
+    .filter((c) => c.before !== null || c.after !== null);
+};
+
+export class WhiteboardHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private batch: ItemChange[] | null = null;
+  private batchLayerChanges: LayerChange[] = [];
+  private batchDepth = 0;
+  private gesture = 0;
+  private inGesture = false;
+
+  /**
+   * Record some changes.
+   * If the previous entry has the same merge key and was recorded during the current gesture,
+   * the changes are merged into it, so that continuous interactions (like dragging an item) count as one step.
+   *
+   * @param changes The changes to record.
+   * @param mergeKey Key used to merge consecutive changes, or `null` to never merge them.
+   * @param layerChanges The changes made to the layers along with the items.
+   */
+  public record(
+    changes: ItemChange[],
+    mergeKey: string | null = null,
+    layerChanges: LayerChange[] = []
+  ): void {
+    if (changes.length === 0 && layerChanges.length === 0) {
+      return;
+    }
+
+    if (this.batch) {
+      this.batch = changes.reduce(mergeChange, this.batch);
+      this.batchLayerChanges.push(...layerChanges);
+      return;
+    }
+
+    this.redoStack = [];
+
+    const gesture = this.inGesture ? this.gesture : null;
+    const lastEntry = this.undoStack[this.undoStack.length - 1];
+    if (
+      lastEntry &&
+      mergeKey !== null &&
+      gesture !== null &&
+      layerChanges.length === 0 &&
+      lastEntry.mergeKey === mergeKey &&
+      lastEntry.gesture === gesture
+    ) {
+      lastEntry.changes = changes.reduce(mergeChange, lastEntry.changes);
+      return;
+    }
+
+    this.undoStack.push({ changes, layerChanges, mergeKey, gesture });
+    if (this.undoStack.length > HISTORY_MAX_ENTRIES) {
+      this.undoStack.shift();
+    }
+  }
+
+  /**
+   * Start a gesture, like dragging an item or moving a slider: until `endGesture` is called,
+   * consecutive changes with the same merge key are merged into one step.
+   * Starting a gesture ends the previous one.
+   */
+  public startGesture(): void {
+    this.gesture++;
+    this.inGesture = true;
+  }
+
+  public endGesture(): void {
+    this.inGesture = false;
+  }
+
+  /**
+   * Start a batch: all changes recorded until `endBatch` is called count as one step.
+   * Batches can be nested: the changes are recorded once the outermost batch is ended.
+   */
+  public startBatch(): void {
+    if (this.batchDepth === 0) {
+      this.batch = [];
+      this.batchLayerChanges = [];
+    }
+    this.batchDepth++;
+  }
+
+  /**
+   * End the current batch and record its changes as one step if it is the outermost one.
+   */
+  public endBatch(): void {
+    if (this.batchDepth === 0) {
+      return;
+    }
+    this.batchDepth--;
+    if (this.batchDepth === 0) {
+      this.flushBatch();
+    }
+  }
+
+  /**
+   * Record the changes of the current batch as one step, even if it is nested.
+   */
+  private flushBatch(): void {
+    const changes = this.batch;
+    const layerChanges = this.batchLayerChanges;
+    this.batch = null;
+    this.batchLayerChanges = [];
+    this.batchDepth = 0;
+    if (changes) {
+      this.record(changes, null, layerChanges);
+    }
+  }
+
+  /**
+   * Get the changes to revert and move them to the redo stack.
+   *
+   * @returns The last entry or `null` if there is nothing to undo.
+   */
+  public undo(): HistoryEntry | null {
+    this.flushBatch();
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return null;
+    }
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  /**
+   * Get the changes to apply again and move them back to the undo stack.
+   *
+   * @returns The last undone entry or `null` if there is nothing to redo.
+   */
+  public redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return null;
+    }
+    this.undoStack.push({ ...entry, mergeKey: null });
+    return entry;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public clear(): void {
+    this.batch = null;
+    this.batchLayerChanges = [];
+    this.batchDepth = 0;
+    this.inGesture = false;
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,58 @@
+import { WhiteboardItem } from "./SimpleWhiteboardTool";
+
+/**
+ * A layer of the board.
+ * Layers are drawn from the first one (at the bottom) to the last one (on top).
+ */
+export type Layer = {
+  id: string;
+  name: string;
+  visible: boolean;
+  // Items of a locked layer are still displayed, but they can't be selected or erased
+  locked: boolean;
+  // Opacity of the whole layer, from 0 to 1
+  opacity: number;
+};
+
+/**
+ * ID of the layer of the boards that don't have layers yet.
+ */
+export const DEFAULT_LAYER_ID = "default";
+
+export const createDefaultLayer = (): Layer => ({
+  id: DEFAULT_LAYER_ID,
+  name: "Layer 1",
+  visible: true,
+  locked: false,
+  opacity: 1,
+});
+
+/**
+ * Get the layer of an item.
+ * Items without a layer, or whose layer does not exist anymore, are on the bottom layer.
+ *
+ * @param layers The layers, from bottom to top.
+ * @param item The item.
+ * @returns The layer of the item, or `null` if there is no layer.
+ */
+export const getItemLayer = (
+  layers: Layer[],
+  item: WhiteboardItem
+): Layer | null =>
+  layers.find((layer) => layer.id === item.layerId) || layers[0] || null;
+
+/**
+ * Split items by layer, keeping their order in each layer.
+ *
+ * @param layers The layers, from bottom to top.
+ * @param items The items.
+ * @returns The items of each layer, from the bottom layer to the top one.
+ */
+export const getItemsByLayer = (
+  layers: Layer[],
+  items: WhiteboardItem[]
+): { layer: Layer; items: WhiteboardItem[] }[] =>
+  layers.map((layer) => ({
+    layer,
+    items: items.filter((item) => getItemLayer(layers, item) === layer),
+  }));
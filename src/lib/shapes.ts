@@ -0,0 +1,250 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+import { Point, getPointsBoundingRect, mapPointBetweenRects } from "./geometry";
+
+export enum Shape {
+  DIAMOND = "diamond",
+  TRIANGLE = "triangle",
+  STAR = "star",
+  ROUNDED_RECT = "rounded-rect",
+  CLOUD = "cloud",
+}
+
+export const SHAPE_LABELS: Record<Shape, string> = {
+  [Shape.DIAMOND]: "Diamond",
+  [Shape.TRIANGLE]: "Triangle",
+  [Shape.STAR]: "Star",
+  [Shape.ROUNDED_RECT]: "Rounded rectangle",
+  [Shape.CLOUD]: "Cloud",
+};
+
+/**
+ * Part of the outline of a shape: a corner, or an elliptical arc.
+ * Angles are in radians, and go clockwise on the screen from the start to the end angle.
+ */
+type ShapePart =
+  | { type: "point"; point: Point }
+  | {
+      type: "arc";
+      center: Point;
+      radiusX: number;
+      radiusY: number;
+      startAngle: number;
+      endAngle: number;
+    };
+
+/**
+ * Radius of the corners of the rounded rectangles, relative to their smallest side.
+ */
+const ROUNDED_RECT_RADIUS_RATIO = 0.15;
+
+/**
+ * Radius of the inner corners of the stars, relative to their outer corners.
+ */
+const STAR_INNER_RADIUS_RATIO = 0.4;
+
+const STAR_BRANCHES = 5;
+
+const CLOUD_BUMPS = 8;
+
+/**
+ * Number of segments used to approximate each arc in the outline of a shape.
+ */
+const ARC_SEGMENTS = 8;
+
+/**
+ * Get a point of an arc.
+ *
+ * @param part The arc.
+ * @param angle The angle of the point on the arc.
+ * @returns The point.
+ */
+const getArcPoint = (
+  part: Extract<ShapePart, { type: "arc" }>,
+  angle: number
+): Point => ({
+  x: part.center.x + part.radiusX * Math.cos(angle),
+  y: part.center.y + part.radiusY * Math.sin(angle),
+});
+
+/**
+ * Get the points of the outline of a shape, approximating its arcs with segments.
+ *
+ * @param parts The parts of the outline.
+ * @returns The points of the closed outline.
+ */
+const getPartsOutline = (parts: ShapePart[]): Point[] =>
+  parts.flatMap((part) => {
+    if (part.type === "point") {
+      return [part.point];
+    }
+    return Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) =>
+      getArcPoint(
+        part,
+        part.startAngle + ((part.endAngle - part.startAngle) * i) / ARC_SEGMENTS
+      )
+    );
+  });
+
+/**
+ * Scale the parts of an outline, so that it fits exactly in a rect.
+ *
+ * @param parts The parts of the outline.
+ * @param rect The rect to fit the outline in.
+ * @returns The scaled parts.
+ */
+const fitPartsInRect = (
+  parts: ShapePart[],
+  rect: BoundingRect
+): ShapePart[] => {
+  const bounds = getPointsBoundingRect(getPartsOutline(parts));
+  const scaleX = bounds.width === 0 ? 1 : rect.width / bounds.width;
+  const scaleY = bounds.height === 0 ? 1 : rect.height / bounds.height;
+
+  return parts.map((part) => {
+    if (part.type === "point") {
+      return {
+        ...part,
+        point: mapPointBetweenRects(part.point, bounds, rect),
+      };
+    }
+    return {
+      ...part,
+      center: mapPointBetweenRects(part.center, bounds, rect),
+      radiusX: part.radiusX * scaleX,
+      radiusY: part.radiusY * scaleY,
+    };
+  });
+};
+
+/**
+ * Outline of a star in a unit square, before fitting it in the rect of the shape.
+ */
+const STAR_PARTS: ShapePart[] = Array.from(
+  { length: STAR_BRANCHES * 2 },
+  (_, i) => {
+    const angle = -Math.PI / 2 + (Math.PI * i) / STAR_BRANCHES;
+    const radius = i % 2 === 0 ? 0.5 : 0.5 * STAR_INNER_RADIUS_RATIO;
+    return {
+      type: "point",
+      point: {
+        x: 0.5 + radius * Math.cos(angle),
+        y: 0.5 + radius * Math.sin(angle),
+      },
+    };
+  }
+);
+
+/**
+ * Outline of a cloud in a unit square, before fitting it in the rect of the shape.
+ * It's made of half circles bulging out of the segments between points around a circle.
+ */
+const CLOUD_PARTS: ShapePart[] = Array.from({ length: CLOUD_BUMPS }, (_, i) => {
+  const getBase = (index: number): Point => {
+    const angle = -Math.PI / 2 + (Math.PI * 2 * index) / CLOUD_BUMPS;
+    return { x: 0.5 + 0.5 * Math.cos(angle), y: 0.5 + 0.5 * Math.sin(angle) };
+  };
+  const from = getBase(i);
+  const to = getBase(i + 1);
+  const radius = Math.hypot(to.x - from.x, to.y - from.y) / 2;
+  const center = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+  const startAngle = Math.atan2(from.y - center.y, from.x - center.x);
+  return {
+    type: "arc",
+    center,
+    radiusX: radius,
+    radiusY: radius,
+    startAngle,
+    endAngle: startAngle + Math.PI,
+  };
+});
+
+/**
+ * Get the parts of the outline of a shape.
+ *
+ * @param shape The shape.
+ * @param rect The rect the shape fills.
+ * @returns The parts of the outline, clockwise.
+ */
+const getShapeParts = (shape: Shape, rect: BoundingRect): ShapePart[] => {
+  const { x, y, width, height } = rect;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  const toParts = (points: Point[]): ShapePart[] =>
+    points.map((point) => ({ type: "point", point }));
+
+  switch (shape) {
+    case Shape.DIAMOND:
+      return toParts([
+        { x: centerX, y },
+        { x: x + width, y: centerY },
+        { x: centerX, y: y + height },
+        { x, y: centerY },
+      ]);
+    case Shape.TRIANGLE:
+      return toParts([
+        { x: centerX, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ]);
+    case Shape.STAR:
+      return fitPartsInRect(STAR_PARTS, rect);
+    case Shape.CLOUD:
+      return fitPartsInRect(CLOUD_PARTS, rect);
+    case Shape.ROUNDED_RECT:
+    default: {
+      const radius = Math.min(width, height) * ROUNDED_RECT_RADIUS_RATIO;
+      const getCorner = (
+        cornerX: number,
+        cornerY: number,
+        startAngle: number
+      ): ShapePart => ({
+        type: "arc",
+        center: { x: cornerX, y: cornerY },
+        radiusX: radius,
+        radiusY: radius,
+        startAngle,
+        endAngle: startAngle + Math.PI / 2,
+      });
+      return [
+        getCorner(x + width - radius, y + radius, -Math.PI / 2),
+        getCorner(x + width - radius, y + height - radius, 0),
+        getCorner(x + radius, y + height - radius, Math.PI / 2),
+        getCorner(x + radius, y + radius, Math.PI),
+      ];
+    }
+  }
+};
+
+/**
+ * Get the outline of a shape, with its curves approximated by segments.
+ * It can be used to hit test the shape.
+ *
+ * @param shape The shape.
+ * @param rect The rect the shape fills.
+ * @returns The points of the closed outline.
+ */
+export const getShapeOutline = (shape: Shape, rect: BoundingRect): Point[] =>
+  getPartsOutline(getShapeParts(shape, rect));
+
+/**
+ * Get the SVG path of a shape, that can be drawn with Rough.js.
+ *
+ * @param shape The shape.
+ * @param rect The rect the shape fills.
+ * @returns The SVG path data.
+ */
+export const getShapePath = (shape: Shape, rect: BoundingRect): string => {
+  const commands = getShapeParts(shape, rect).map((part, i) => {
+    if (part.type === "point") {
+      return `${i === 0 ? "M" : "L"}${part.point.x},${part.point.y}`;
+    }
+    const start = getArcPoint(part, part.startAngle);
+    const end = getArcPoint(part, part.endAngle);
+    const largeArc =
+      Math.abs(part.endAngle - part.startAngle) > Math.PI ? 1 : 0;
+    return `${i === 0 ? "M" : "L"}${start.x},${start.y} A${part.radiusX},${
+      part.radiusY
+    } 0 ${largeArc} 1 ${end.x},${end.y}`;
+  });
+  return `${commands.join(" ")} Z`;
+};
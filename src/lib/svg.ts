@@ -1,3 +1,6 @@
+import rough from "roughjs";
+import { Drawable } from "roughjs/bin/core";
+
 /**
  * Calculate the average of two numbers.
  *
@@ -46,3 +49,40 @@ export const getSvgPathFromStroke = (points: number[][], closed = true) => {
 
   return result;
 };
+
+/**
+ * Rough.js generator used to export shapes as SVG.
+ * It uses the same seed as the canvas, so that exported shapes look the same.
+ */
+export const roughGenerator = rough.generator({ options: { seed: 42 } });
+
+/**
+ * Escape a string so that it can be used in XML content or attributes.
+ *
+ * @param value The string to escape.
+ * @returns The escaped string.
+ */
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/**
+ * Get the SVG markup of a shape generated by Rough.js.
+ *
+ * @param drawable The shape generated by `roughGenerator`.
+ * @returns The SVG paths of the shape.
+ */
+export const getSvgFromDrawable = (drawable: Drawable) =>
+  roughGenerator
+    .toPaths(drawable)
+    .map(
+      (path) =>
+        `<path d="${path.d}" stroke="${escapeXml(path.stroke)}" stroke-width="${
+          path.strokeWidth
+        }" fill="${escapeXml(path.fill || "none")}"/>`
+    )
+    .join("");
@@ -0,0 +1,128 @@
+import { BoundingRect } from "./SimpleWhiteboardTool";
+
+export type TextAlign = "left" | "center" | "right";
+
+/**
+ * Font families that can be picked for texts, by label.
+ */
+export const FONT_FAMILIES: Record<string, string> = {
+  "Sans-serif": "sans-serif",
+  Serif: "serif",
+  Monospace: "monospace",
+  // Matches the sketchy style of Rough.js
+  "Hand-drawn": '"Comic Sans MS", "Comic Neue", "Chalkboard SE", cursive',
+};
+
+/**
+ * Get the CSS font of a text.
+ *
+ * @param fontSize The font size, in pixels.
+ * @param fontFamily The font family.
+ * @param bold Whether the text is bold.
+ * @param italic Whether the text is italic.
+ * @returns The CSS font, that can also be used on a canvas.
+ */
+export const getCssFont = (
+  fontSize: number,
+  fontFamily: string,
+  bold = false,
+  italic = false
+): string =>
+  `${italic ? "italic " : ""}${bold ? "bold " : ""}${fontSize}px ${fontFamily}`;
+
+/**
+ * How the text of an item is edited in place.
+ */
+export type TextEditingOptions = {
+  // Box in which the text is typed, in world coordinates, before applying the rotation of the item
+  rect: BoundingRect;
+  text: string;
+  fontSize: number;
+  fontFamily: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  color: string;
+  // Height of a line, relative to the font size
+  lineHeight: number;
+  textAlign: TextAlign;
+  // Whether the text wraps at the width of the box
+  wrap: boolean;
+  // Whether the item is removed if its text is empty once the editing ends
+  removeIfEmpty: boolean;
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Measure the width of a text.
+ *
+ * @param text The text to measure.
+ * @param font The CSS font of the text.
+ * @returns The width of the text.
+ */
+export const measureText = (text: string, font: string): number => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) {
+    // Rough estimation, if the canvas is not available
+    return text.length * (parseFloat(font) || 16) * 0.5;
+  }
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+/**
+ * Split a text into lines, wrapping it at a maximum width.
+ * Words that are longer than the maximum width are split.
+ *
+ * @param text The text to wrap.
+ * @param font The CSS font of the text.
+ * @param maxWidth The maximum width of a line, or `null` to only split the text at line breaks.
+ * @returns The lines of the text.
+ */
+export const wrapText = (
+  text: string,
+  font: string,
+  maxWidth: number | null
+): string[] => {
+  const paragraphs = text.split("\n");
+  if (maxWidth === null) {
+    return paragraphs;
+  }
+
+  return paragraphs.flatMap((paragraph) => {
+    const lines: string[] = [];
+    let currentLine = "";
+
+    paragraph.split(/(\s+)/).forEach((word) => {
+      const candidate = currentLine + word;
+      if (currentLine === "" || measureText(candidate, font) <= maxWidth) {
+        currentLine = candidate;
+      } else {
+        lines.push(currentLine.trimEnd());
+        currentLine = word.trimStart();
+      }
+
+      // Split the words that don't fit on a line by themselves
+      while (
+        currentLine.length > 1 &&
+        measureText(currentLine, font) > maxWidth
+      ) {
+        let length = currentLine.length - 1;
+        while (
+          length > 1 &&
+          measureText(currentLine.slice(0, length), font) > maxWidth
+        ) {
+          length--;
+        }
+        lines.push(currentLine.slice(0, length));
+        currentLine = currentLine.slice(length);
+      }
+    });
+
+    lines.push(currentLine);
+    return lines;
+  });
+};
@@ -1,28 +1,142 @@
 import {
   LitElement,
   PropertyDeclaration,
+  PropertyValues,
   TemplateResult,
   css,
   html,
 } from "lit";
 import rough from "roughjs";
 import { customElement, property, state } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+import { v4 as uuidv4 } from "uuid";
 import { RoughCanvas } from "roughjs/bin/canvas";
 import SimpleWhiteboardTool, {
   WhiteboardItem,
   BoundingRect,
 } from "./lib/SimpleWhiteboardTool";
+import {
+  HistoryEntry,
+  ItemChange,
+  LayerChange,
+  WhiteboardHistory,
+  mergeChange,
+} from "./lib/history";
+import {
+  Point,
+  getRectCenter,
+  getRectsBoundingRect,
+  getRotatedRectBounds,
+  rotatePoint,
+} from "./lib/geometry";
+import { escapeXml } from "./lib/svg";
+import { getCssFont } from "./lib/text";
+import {
+  DOCUMENT_VERSION,
+  WhiteboardDocument,
+  migrateDocument,
+} from "./lib/document";
+import {
+  HANDLE_SIZE,
+  getResizeHandlePositions,
+  getRotationHandlePosition,
+} from "./lib/handles";
+import {
+  ANCHOR_SNAP_DISTANCE,
+  ConnectorBinding,
+  getAnchorPosition,
+  getClosestAnchor,
+} from "./lib/connectors";
+import {
+  DEFAULT_GRID_SIZE,
+  GridStyle,
+  drawGrid,
+  snapPointToGrid,
+} from "./lib/grid";
+import {
+  GUIDE_SNAP_DISTANCE,
+  Guide,
+  drawGuides,
+  findAlignmentSnap,
+} from "./lib/guides";
+import {
+  Alignment,
+  DistributionAxis,
+  getAlignmentOffsets,
+  getDistributionOffsets,
+} from "./lib/align";
+import {
+  GROUP_KIND,
+  GroupItem,
+  findParentGroup,
+  getGroupMemberIds,
+  isGroupItem,
+} from "./lib/groups";
+import {
+  Layer,
+  createDefaultLayer,
+  getItemLayer,
+  getItemsByLayer,
+} from "./lib/layers";
+import { getIconSvg } from "./lib/icons";
+
+export type ExportSvgOptions = {
+  // Items to export, or `"selection"` to export the selected items ; all items are exported by default
+  itemsOrSelection?: WhiteboardItem[] | "selection";
+  // Space around the items, in pixels
+  padding?: number;
+  // Background color, or `null` for a transparent background
+  background?: string | null;
+};
+
+export type ExportImageOptions = {
+  // Format of the image
+  type?: "image/png" | "image/jpeg";
+  // Number of image pixels per whiteboard pixel
+  scale?: number;
+  // Space around the items, in pixels
+  padding?: number;
+  // Background color, or `null` for a transparent background (PNG only)
+  background?: string | null;
+  // Only export the selected items
+  onlySelected?: boolean;
+};
 
-type Point = {
-  x: number;
-  y: number;
+export type ModifierKeys = {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
 };
 
+/**
+ * Zoom boundaries and the factor applied by `zoomIn` and `zoomOut`.
+ */
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+const ZOOM_STEP = 1.2;
+
 @customElement("simple-whiteboard")
 export class SimpleWhiteboard extends LitElement {
   @property({ type: Boolean })
   debug = false;
 
+  // Delete the connectors attached to an item when it is deleted, instead of detaching them
+  @property({ type: Boolean, attribute: "delete-bound-connectors" })
+  deleteBoundConnectors = false;
+
+  // Distance between two lines of the background grid, in world coordinates
+  @property({ type: Number, attribute: "grid-size" })
+  gridSize = DEFAULT_GRID_SIZE;
+
+  @property({ attribute: "grid-style" })
+  gridStyle: GridStyle = "none";
+
+  // Snap the drawn and moved items to the grid, even if it is not displayed
+  @property({ type: Boolean, attribute: "snap-to-grid" })
+  snapToGrid = false;
+
   private canvas?: HTMLCanvasElement;
   private canvasContext?: CanvasRenderingContext2D;
 
@@ -40,7 +154,41 @@ export class SimpleWhiteboard extends LitElement {
   @state() private previousTool: string = "";
   @state() private currentDrawing: WhiteboardItem | null = null;
 
-  @state() private selectedItemId: string | null = null;
+  @state() private selectedItemIds: string[] = [];
+
+  // Item whose text is being edited in place
+  @state() private editingItemId: string | null = null;
+
+  // Group whose members are selected one by one, after double-clicking on it
+  @state() private enteredGroupId: string | null = null;
+
+  // Layers, from bottom to top ; new items are added to the active layer
+  @state() private layers: Layer[] = [createDefaultLayer()];
+  @state() private activeLayerId: string = this.layers[0].id;
+  @state() private layersPanelOpen = false;
+
+  // Guide lines shown while an item is aligned with other items
+  private guides: Guide[] = [];
+
+  private history = new WhiteboardHistory();
+
+  private documentMetadata: Record<string, unknown> = {};
+
+  private modifierKeys: ModifierKeys = {
+    shiftKey: false,
+    ctrlKey: false,
+    altKey: false,
+    metaKey: false,
+  };
+
+  // Whether a drawing was started with the mouse and is not ended yet
+  private isMouseDown = false;
+
+  private pinch: {
+    distance: number;
+    zoom: number;
+    center: Point;
+  } | null = null;
 
   static styles = css`
     .root {
@@ -115,6 +263,82 @@ export class SimpleWhiteboard extends LitElement {
       margin: 0;
     }
 
+    .layers {
+      user-select: none;
+      position: absolute;
+      z-index: 1;
+      box-shadow: 0 0 8px rgba(0, 0, 0, 0.1);
+      top: 84px;
+      right: 16px;
+      width: 240px;
+      background-color: #fff;
+      border-radius: 8px;
+      padding: 8px 12px;
+      font-size: 14px;
+    }
+
+    @media (max-width: 450px) {
+      .layers {
+        top: auto;
+        bottom: 16px;
+        width: calc(100% - 64px);
+      }
+    }
+
+    .layers button {
+      background-color: transparent;
+      border: none;
+      cursor: pointer;
+      padding: 4px;
+      border-radius: 4px;
+    }
+
+    .layers button:hover {
+      background-color: rgba(0, 0, 0, 0.05);
+    }
+
+    .layers button:disabled {
+      cursor: default;
+      opacity: 0.3;
+    }
+
+    .layers--toggle {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      width: 100%;
+    }
+
+    .layers--list {
+      list-style: none;
+      margin: 8px 0;
+      padding: 0;
+    }
+
+    .layers--list li {
+      padding: 4px;
+      border-radius: 4px;
+    }
+
+    .layers--list .layers--active {
+      background-color: rgba(19, 90, 160, 0.1);
+    }
+
+    .layers--list input[type="text"] {
+      width: 100%;
+      box-sizing: border-box;
+    }
+
+    .text-editor {
+      position: absolute;
+      z-index: 1;
+      margin: 0;
+      padding: 0;
+      outline: 1px dashed #135aa0;
+      overflow-wrap: break-word;
+      cursor: text;
+    }
+
     canvas {
       top: 0;
       left: 0;
@@ -140,6 +364,38 @@ export class SimpleWhiteboard extends LitElement {
     this.handleResize();
   }
 
+  protected updated(changedProperties: PropertyValues): void {
+    if (
+      changedProperties.has("gridSize") ||
+      changedProperties.has("gridStyle")
+    ) {
+      this.draw();
+    }
+
+    if (!changedProperties.has("editingItemId") || !this.editingItemId) {
+      return;
+    }
+
+    // Fill the text editor and put the caret at the end of the text
+    const editor = this.shadowRoot?.querySelector<HTMLElement>(".text-editor");
+    const item = this.getItemById(this.editingItemId);
+    const tool = item ? this.registeredTools.get(item.kind) : undefined;
+    const options = item && tool ? tool.getTextEditingOptions(item) : null;
+    if (!editor || !options) {
+      return;
+    }
+    editor.innerText = options.text;
+    editor.focus();
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    range.collapse(false);
+    const selection = window.getSelection();
+    if (selection) {
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+  }
+
   handleResize() {
     if (!this.canvas) {
       return;
@@ -152,19 +408,92 @@ export class SimpleWhiteboard extends LitElement {
   }
 
   coordsToCanvasCoords(x: number, y: number): Point {
+    const { x: canvasX, y: canvasY, zoom } = this.canvasCoords;
     return {
-      x: x + this.canvasCoords.x,
-      y: y + this.canvasCoords.y,
+      x: x * zoom + canvasX,
+      y: y * zoom + canvasY,
     };
   }
 
   coordsFromCanvasCoords(x: number, y: number): Point {
+    const { x: canvasX, y: canvasY, zoom } = this.canvasCoords;
+    return {
+      x: (x - canvasX) / zoom,
+      y: (y - canvasY) / zoom,
+    };
+  }
+
+  /**
+   * Snap a point to the grid, if snapping is enabled.
+   *
+   * @param point The point, in world coordinates.
+   * @returns The snapped point, or the same point if snapping is disabled.
+   */
+  snapPoint(point: Point): Point {
+    if (!this.snapToGrid) {
+      return point;
+    }
+    return snapPointToGrid(point, this.gridSize);
+  }
+
+  /**
+   * Find how to move a rect so that its edges or its center are aligned with the ones of other items.
+   * The matching guides are displayed until the drawing ends.
+   *
+   * @param rect The moved rect, in world coordinates.
+   * @param excludedItemIds The IDs of the items to not align with, like the moved items.
+   * @returns The offsets to apply to the rect on each axis, or `null` for an axis on which it is not aligned.
+   */
+  snapRectToItems(
+    rect: BoundingRect,
+    excludedItemIds: string[] = []
+  ): { offsetX: number | null; offsetY: number | null } {
+    // Groups are left out, as their edges are the ones of their members, which may be moved
+    const targets = this.getItemsInDrawingOrder()
+      .filter(
+        (item) => !excludedItemIds.includes(item.id) && !isGroupItem(item)
+      )
+      .map((item) => this.getBoundingRect(item))
+      .filter((boundingRect): boundingRect is BoundingRect => !!boundingRect);
+    const { offsetX, offsetY, guides } = findAlignmentSnap(
+      rect,
+      targets,
+      GUIDE_SNAP_DISTANCE / this.getZoom()
+    );
+    this.guides = guides;
+    return { offsetX, offsetY };
+  }
+
+  /**
+   * Snap a point that is drawn, aligning it with the edges and centers of the items, or else with the grid.
+   *
+   * @param point The point, in world coordinates.
+   * @param excludedItemIds The IDs of the items to not align with.
+   * @returns The snapped point.
+   */
+  snapPointToItems(point: Point, excludedItemIds: string[] = []): Point {
+    const { offsetX, offsetY } = this.snapRectToItems(
+      { ...point, width: 0, height: 0 },
+      excludedItemIds
+    );
+    const gridPoint = this.snapPoint(point);
     return {
-      x: x - this.canvasCoords.x,
-      y: y - this.canvasCoords.y,
+      x: offsetX !== null ? point.x + offsetX : gridPoint.x,
+      y: offsetY !== null ? point.y + offsetY : gridPoint.y,
     };
   }
 
+  /**
+   * Hide the guide lines.
+   */
+  clearGuides(): void {
+    if (this.guides.length === 0) {
+      return;
+    }
+    this.guides = [];
+    this.draw();
+  }
+
   handleVisibilityChange() {
     if (!this.canvas) {
       return;
@@ -179,13 +508,36 @@ export class SimpleWhiteboard extends LitElement {
     item: WhiteboardItem
   ) {
     const tool = this.registeredTools.get(item.kind);
-    if (tool) {
+    if (!tool) {
+      return;
+    }
+
+    // Tools draw the item without rotation, the rotation is applied around the center of the item
+    const rotationCenter = item.rotation ? this.getRotationCenter(item) : null;
+    if (!rotationCenter) {
       tool.drawItem(rc, context, item);
       return;
     }
+
+    const { x: centerX, y: centerY } = this.coordsToCanvasCoords(
+      rotationCenter.x,
+      rotationCenter.y
+    );
+    context.save();
+    context.translate(centerX, centerY);
+    context.rotate(item.rotation || 0);
+    context.translate(-centerX, -centerY);
+    tool.drawItem(rc, context, item);
+    context.restore();
   }
 
-  getBoundingRect(item: WhiteboardItem): BoundingRect | null {
+  /**
+   * Get the bounding rect of the item, as returned by its tool, without taking its rotation into account.
+   *
+   * @param item The item.
+   * @returns The unrotated bounding rect of the item or `null` if it has none.
+   */
+  getUnrotatedBoundingRect(item: WhiteboardItem): BoundingRect | null {
     const tool = this.registeredTools.get(item.kind);
     if (!tool) {
       return null;
@@ -193,19 +545,245 @@ export class SimpleWhiteboard extends LitElement {
     return tool.getBoundingRect(item);
   }
 
-  drawItemBox(context: CanvasRenderingContext2D, item: WhiteboardItem): void {
-    const boundingRect = this.getBoundingRect(item);
+  /**
+   * Get the smallest axis-aligned rect containing the item, taking its rotation into account.
+   *
+   * @param item The item.
+   * @returns The bounding rect of the item or `null` if it has none.
+   */
+  getBoundingRect(item: WhiteboardItem): BoundingRect | null {
+    const boundingRect = this.getUnrotatedBoundingRect(item);
+    if (!boundingRect) {
+      return null;
+    }
+    return getRotatedRectBounds(boundingRect, item.rotation || 0);
+  }
+
+  /**
+   * Get the point the item rotates around, which is the center of its unrotated bounding rect.
+   *
+   * @param item The item.
+   * @returns The center of rotation or `null` if the item has no bounding rect.
+   */
+  getRotationCenter(item: WhiteboardItem): Point | null {
+    const boundingRect = this.getUnrotatedBoundingRect(item);
+    if (!boundingRect) {
+      return null;
+    }
+    return getRectCenter(boundingRect);
+  }
+
+  /**
+   * Check if a point hits the item, taking its rotation into account.
+   *
+   * @param item The item.
+   * @param x The x coordinate of the point, in world coordinates.
+   * @param y The y coordinate of the point, in world coordinates.
+   * @param tolerance The maximum distance between the point and the item.
+   * @returns `true` if the point hits the item.
+   */
+  hitTestItem(
+    item: WhiteboardItem,
+    x: number,
+    y: number,
+    tolerance = 0
+  ): boolean {
+    const tool = this.registeredTools.get(item.kind);
+    if (!tool) {
+      return false;
+    }
+    const point = this.unrotatePoint(item, { x, y });
+    return tool.hitTest(item, point.x, point.y, tolerance);
+  }
+
+  /**
+   * Check if the item can be resized and rotated using handles.
+   *
+   * @param item The item.
+   * @returns `true` if the handles are available for the item.
+   */
+  isItemTransformable(item: WhiteboardItem): boolean {
+    const tool = this.registeredTools.get(item.kind);
+    return !item.locked && !!tool && tool.isTransformable(item);
+  }
+
+  /**
+   * Check if an item can be replaced by a new version of it.
+   * Locked items can only be changed to unlock them.
+   *
+   * @param item The current item.
+   * @param updatedItem The new version of the item.
+   * @returns `true` if the item can be updated.
+   */
+  private canUpdateItem(
+    item: WhiteboardItem,
+    updatedItem: WhiteboardItem
+  ): boolean {
+    return !item.locked || !updatedItem.locked;
+  }
+
+  /**
+   * Find the item a connector can be attached to at a given position.
+   *
+   * @param x The x coordinate of the end of the connector, in world coordinates.
+   * @param y The y coordinate of the end of the connector, in world coordinates.
+   * @param tolerance The maximum distance between the end of the connector and the item.
+   * @param excludedItemIds The IDs of the items that can't be attached to.
+   * @returns The binding to the topmost item at this position, or `null` if there is none.
+   */
+  findConnectorBinding(
+    x: number,
+    y: number,
+    tolerance: number,
+    excludedItemIds: string[] = []
+  ): ConnectorBinding | null {
+    const item = this.getItemsInDrawingOrder()
+      .reverse()
+      .find((item) => {
+        const tool = this.registeredTools.get(item.kind);
+        return (
+          tool &&
+          !excludedItemIds.includes(item.id) &&
+          tool.isBindable(item) &&
+          this.hitTestItem(item, x, y, tolerance)
+        );
+      });
+    if (!item) {
+      return null;
+    }
+    const boundingRect = this.getUnrotatedBoundingRect(item);
+    if (!boundingRect) {
+      return null;
+    }
+
+    const point = this.unrotatePoint(item, { x, y });
+    const snapDistance = ANCHOR_SNAP_DISTANCE / this.getZoom();
+    return {
+      itemId: item.id,
+      anchor: getClosestAnchor(boundingRect, point, snapDistance),
+    };
+  }
+
+  /**
+   * Get the position of the end of a connector attached to an item.
+   *
+   * @param binding The binding of the end of the connector.
+   * @returns The position of the end of the connector, in world coordinates, or `null` if the item does not exist anymore.
+   */
+  getBindingPosition(binding: ConnectorBinding): Point | null {
+    const item = this.getItemById(binding.itemId);
+    if (!item) {
+      return null;
+    }
+    const boundingRect = this.getUnrotatedBoundingRect(item);
+    if (!boundingRect) {
+      return null;
+    }
+    return rotatePoint(
+      getAnchorPosition(boundingRect, binding.anchor),
+      getRectCenter(boundingRect),
+      item.rotation || 0
+    );
+  }
+
+  /**
+   * Convert a point into the unrotated space of the item.
+   * This is useful to test a point against the unrotated geometry of the item.
+   *
+   * @param item The item.
+   * @param point The point, in world coordinates.
+   * @returns The point with the rotation of the item reverted.
+   */
+  unrotatePoint(item: WhiteboardItem, point: Point): Point {
+    const rotationCenter = item.rotation ? this.getRotationCenter(item) : null;
+    if (!rotationCenter) {
+      return point;
+    }
+    return rotatePoint(point, rotationCenter, -(item.rotation || 0));
+  }
+
+  drawItemBox(
+    context: CanvasRenderingContext2D,
+    item: WhiteboardItem,
+    withHandles = false
+  ): void {
+    const boundingRect = this.getUnrotatedBoundingRect(item);
     if (!boundingRect) {
       return;
     }
     const { x, y, width, height } = boundingRect;
     const { x: coordX, y: coordY } = this.coordsToCanvasCoords(x, y);
+    const zoom = this.getZoom();
+
+    // The box follows the rotation of the item
+    const { x: centerX, y: centerY } = this.coordsToCanvasCoords(
+      x + width / 2,
+      y + height / 2
+    );
+    context.save();
+    context.translate(centerX, centerY);
+    context.rotate(item.rotation || 0);
+    context.translate(-centerX, -centerY);
 
     context.strokeStyle = "#135aa0";
     context.lineWidth = 2;
     context.beginPath();
-    context.rect(coordX, coordY, width, height);
+    context.rect(coordX, coordY, width * zoom, height * zoom);
     context.stroke();
+
+    if (withHandles) {
+      const rotationHandle = getRotationHandlePosition(boundingRect, zoom);
+      const { x: rotationX, y: rotationY } = this.coordsToCanvasCoords(
+        rotationHandle.x,
+        rotationHandle.y
+      );
+      context.fillStyle = "#ffffff";
+      context.lineWidth = 1;
+      context.beginPath();
+      context.moveTo(centerX, coordY);
+      context.lineTo(rotationX, rotationY);
+      context.stroke();
+      context.beginPath();
+      context.arc(rotationX, rotationY, HANDLE_SIZE / 2, 0, Math.PI * 2);
+      context.fill();
+      context.stroke();
+
+      Object.values(getResizeHandlePositions(boundingRect)).forEach(
+        (handle) => {
+          const { x: handleX, y: handleY } = this.coordsToCanvasCoords(
+            handle.x,
+            handle.y
+          );
+          context.beginPath();
+          context.rect(
+            handleX - HANDLE_SIZE / 2,
+            handleY - HANDLE_SIZE / 2,
+            HANDLE_SIZE,
+            HANDLE_SIZE
+          );
+          context.fill();
+          context.stroke();
+        }
+      );
+
+      // Vertices that can be edited one by one have their own handles
+      const tool = this.registeredTools.get(item.kind);
+      const vertices = tool ? tool.getVertices(item) : null;
+      if (vertices) {
+        context.fillStyle = "#135aa0";
+        vertices.forEach((vertex) => {
+          const { x: vertexX, y: vertexY } = this.coordsToCanvasCoords(
+            vertex.x,
+            vertex.y
+          );
+          context.beginPath();
+          context.arc(vertexX, vertexY, HANDLE_SIZE / 2, 0, Math.PI * 2);
+          context.fill();
+        });
+      }
+    }
+
+    context.restore();
   }
 
   draw() {
@@ -215,22 +793,120 @@ export class SimpleWhiteboard extends LitElement {
 
     const context = this.canvasContext;
     context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    drawGrid(context, this.canvasCoords, this.gridSize, this.gridStyle);
 
     const rc = rough.canvas(this.canvas, { options: { seed: 42 } });
-    this.items.forEach((item) => this.drawItem(rc, context, item));
+    this.drawItemsByLayer(rc, context, this.items);
     if (this.currentDrawing) {
       this.drawItem(rc, context, this.currentDrawing);
     }
+    drawGuides(context, this.guides, (x, y) => this.coordsToCanvasCoords(x, y));
+    this.drawLockIndicators(context);
+    this.drawEnteredGroupBox(context);
+
+    // Resize handles are only available when a single item is selected
+    const selectedItems = this.getSelectedItems();
+    selectedItems.forEach((item) =>
+      this.drawItemBox(
+        context,
+        item,
+        selectedItems.length === 1 && this.isItemTransformable(item)
+      )
+    );
+  }
 
-    const selectedItem = this.getSelectedItem();
-    if (selectedItem) {
-      this.drawItemBox(context, selectedItem);
+  /**
+   * Draw items layer by layer, with the opacity of their layer.
+   * Items on hidden layers are not drawn.
+   *
+   * @param rc The rough canvas.
+   * @param context The canvas rendering context.
+   * @param items The items to draw.
+   */
+  private drawItemsByLayer(
+    rc: RoughCanvas,
+    context: CanvasRenderingContext2D,
+    items: WhiteboardItem[]
+  ): void {
+    getItemsByLayer(this.layers, items).forEach(({ layer, items }) => {
+      if (!layer.visible) {
+        return;
+      }
+      context.save();
+      context.globalAlpha = layer.opacity;
+      items.forEach((item) => this.drawItem(rc, context, item));
+      context.restore();
+    });
+  }
+
+  /**
+   * Draw a padlock at the top right corner of the locked items.
+   * The members of a locked group only get the padlock of their group.
+   *
+   * @param context The canvas rendering context.
+   */
+  private drawLockIndicators(context: CanvasRenderingContext2D): void {
+    context.save();
+    context.strokeStyle = "#135aa0";
+    context.fillStyle = "#135aa0";
+    context.lineWidth = 1.5;
+    this.getItemsInDrawingOrder()
+      .filter((item) => {
+        const parent = this.getParentGroup(item.id);
+        return item.locked && !(parent && parent.locked);
+      })
+      .forEach((item) => {
+        const boundingRect = this.getBoundingRect(item);
+        if (!boundingRect) {
+          return;
+        }
+        const { x, y } = this.coordsToCanvasCoords(
+          boundingRect.x + boundingRect.width,
+          boundingRect.y
+        );
+        // Body of the padlock, with its shackle above it
+        context.beginPath();
+        context.arc(x - 8, y - 10, 3, Math.PI, 0);
+        context.stroke();
+        context.fillRect(x - 12, y - 10, 8, 7);
+      });
+    context.restore();
+  }
+
+  /**
+   * Draw a dashed box around the group whose members are being selected.
+   *
+   * @param context The canvas rendering context.
+   */
+  private drawEnteredGroupBox(context: CanvasRenderingContext2D): void {
+    const enteredGroupId = this.getEnteredGroupId();
+    const group = enteredGroupId ? this.getItemById(enteredGroupId) : null;
+    const boundingRect = group ? this.getBoundingRect(group) : null;
+    if (!boundingRect) {
+      return;
     }
+
+    const { x, y } = this.coordsToCanvasCoords(boundingRect.x, boundingRect.y);
+    const zoom = this.getZoom();
+    context.save();
+    context.strokeStyle = "#135aa0";
+    context.lineWidth = 1;
+    context.setLineDash([4, 4]);
+    context.strokeRect(
+      x,
+      y,
+      boundingRect.width * zoom,
+      boundingRect.height * zoom
+    );
+    context.restore();
   }
 
   connectedCallback(): void {
     super.connectedCallback();
     window.addEventListener("resize", this.handleResize.bind(this));
+    window.addEventListener("keydown", this.handleKeyDown);
+    window.addEventListener("keyup", this.handleKeyUp);
+    window.addEventListener("mouseup", this.handleMouseUp);
     document.addEventListener(
       "visibilitychange",
       this.handleVisibilityChange.bind(this)
@@ -242,16 +918,68 @@ export class SimpleWhiteboard extends LitElement {
       "visibilitychange",
       this.handleVisibilityChange.bind(this)
     );
+    window.removeEventListener("mouseup", this.handleMouseUp);
+    window.removeEventListener("keyup", this.handleKeyUp);
+    window.removeEventListener("keydown", this.handleKeyDown);
     window.removeEventListener("resize", this.handleResize.bind(this));
     super.disconnectedCallback();
   }
 
+  /**
+   * Handle the keyboard shortcuts.
+   * Shortcuts are ignored while the user is typing in a form field.
+   *
+   * @param e The keyboard event.
+   */
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    this.updateModifierKeys(e);
+
+    const target = e.composedPath()[0] as HTMLElement | undefined;
+    if (
+      target &&
+      (target.tagName === "INPUT" ||
+        target.tagName === "TEXTAREA" ||
+        target.isContentEditable)
+    ) {
+      return;
+    }
+
+    if (!e.ctrlKey && !e.metaKey) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      this.redo();
+    } else if (key === "z") {
+      e.preventDefault();
+      this.undo();
+    } else if (key === "g" && e.shiftKey) {
+      e.preventDefault();
+      this.ungroupItems();
+    } else if (key === "g") {
+      e.preventDefault();
+      this.groupItems();
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent): void => {
+    this.updateModifierKeys(e);
+  };
+
+  private updateModifierKeys(e: KeyboardEvent | MouseEvent): void {
+    const { shiftKey, ctrlKey, altKey, metaKey } = e;
+    this.modifierKeys = { shiftKey, ctrlKey, altKey, metaKey };
+  }
+
   handleDrawingStart(x: number, y: number) {
     const tool = this.registeredTools.get(this.currentTool);
     if (!tool) {
       return;
     }
 
+    this.history.startGesture();
     tool.handleDrawingStart(x, y);
   }
 
@@ -270,28 +998,105 @@ export class SimpleWhiteboard extends LitElement {
       return;
     }
     tool.handleDrawingEnd();
+    this.history.endGesture();
+    this.clearGuides();
   }
 
   handleMouseDown(e: MouseEvent) {
+    this.updateModifierKeys(e);
+
+    // Keep the focus in the text editor, so that it is only blurred by clicks outside of the board
+    e.preventDefault();
+    if (this.editingItemId) {
+      this.stopTextEditing();
+      return;
+    }
+
+    this.isMouseDown = true;
     this.handleDrawingStart(e.offsetX, e.offsetY);
   }
 
   handleMouseMove(e: MouseEvent) {
+    this.updateModifierKeys(e);
     this.handleDrawingMove(e.offsetX, e.offsetY);
   }
 
-  handleMouseUp() {
-    this.handleDrawingEnd();
-  }
-
-  handleTouchStart(e: TouchEvent) {
-    if (e.touches.length < 1 || !this.canvas) {
+  // Listened on the window, so that drawing also ends when the mouse is released outside of the canvas
+  private handleMouseUp = (): void => {
+    if (!this.isMouseDown) {
+      return;
+    }
+    this.isMouseDown = false;
+    this.handleDrawingEnd();
+  };
+
+  handleDoubleClick(e: MouseEvent) {
+    const tool = this.registeredTools.get(this.currentTool);
+    if (!tool) {
+      return;
+    }
+    tool.handleDoubleClick(e.offsetX, e.offsetY);
+  }
+
+  handleWheel(e: WheelEvent) {
+    // Pinch gestures on trackpads are reported as wheel events with the Ctrl key
+    if (!e.ctrlKey && !e.metaKey) {
+      return;
+    }
+
+    e.preventDefault();
+    this.setZoom(this.getZoom() * Math.exp(-e.deltaY * 0.01), {
+      x: e.offsetX,
+      y: e.offsetY,
+    });
+  }
+
+  /**
+   * Get the distance and the center of the two first touches.
+   *
+   * @param e The touch event.
+   * @returns The distance between the touches and their center, relative to the canvas.
+   */
+  private getPinchInfo(e: TouchEvent): { distance: number; center: Point } {
+    const rect = this.canvas
+      ? this.canvas.getBoundingClientRect()
+      : { left: 0, top: 0 };
+    const [a, b] = [e.touches[0], e.touches[1]];
+
+    return {
+      distance: Math.hypot(b.clientX - a.clientX, b.clientY - a.clientY),
+      center: {
+        x: (a.clientX + b.clientX) / 2 - rect.left,
+        y: (a.clientY + b.clientY) / 2 - rect.top,
+      },
+    };
+  }
+
+  handleTouchStart(e: TouchEvent) {
+    if (e.touches.length < 1 || !this.canvas) {
       return;
     }
 
     // Prevent the default action to prevent scrolling
     e.preventDefault();
 
+    if (this.editingItemId) {
+      this.stopTextEditing();
+      return;
+    }
+
+    // Two fingers: start pinch zooming instead of drawing
+    if (e.touches.length === 2) {
+      const { distance, center } = this.getPinchInfo(e);
+      this.pinch = {
+        distance,
+        zoom: this.getZoom(),
+        center: this.coordsFromCanvasCoords(center.x, center.y),
+      };
+      this.setCurrentDrawing(null);
+      return;
+    }
+
     // Get the first touch
     const touch = e.touches[0];
 
@@ -312,6 +1117,24 @@ export class SimpleWhiteboard extends LitElement {
     // Prevent the default action to prevent scrolling
     e.preventDefault();
 
+    if (this.pinch) {
+      if (e.touches.length < 2) {
+        return;
+      }
+
+      // Keep the point that was under the fingers at the start of the pinch under the fingers
+      const { distance, center } = this.getPinchInfo(e);
+      const zoom = this.clampZoom(
+        (this.pinch.zoom * distance) / this.pinch.distance
+      );
+      this.setCanvasCoords({
+        x: center.x - this.pinch.center.x * zoom,
+        y: center.y - this.pinch.center.y * zoom,
+        zoom,
+      });
+      return;
+    }
+
     // Get the first touch
     const touch = e.touches[0];
 
@@ -324,16 +1147,33 @@ export class SimpleWhiteboard extends LitElement {
     this.handleDrawingMove(x, y);
   }
 
-  handleTouchEnd() {
+  handleTouchEnd(e: TouchEvent) {
+    if (this.pinch) {
+      if (e.touches.length === 0) {
+        this.pinch = null;
+      }
+      return;
+    }
+
     this.handleDrawingEnd();
   }
 
   handleTouchCancel() {
-    if (!this.currentDrawing) {
-      return;
-    }
+    this.handleDrawingCancel();
+  }
 
+  /**
+   * Interrupt the current drawing without ending it, like when the touch is cancelled or the tool is changed.
+   */
+  handleDrawingCancel() {
+    this.isMouseDown = false;
+    const tool = this.registeredTools.get(this.currentTool);
+    if (tool) {
+      tool.handleDrawingCancel();
+    }
     this.currentDrawing = null;
+    this.history.endGesture();
+    this.clearGuides();
 
     this.draw();
   }
@@ -378,10 +1218,34 @@ export class SimpleWhiteboard extends LitElement {
 
   resetWhiteboard() {
     this.items = [];
-    this.selectedItemId = null;
+    this.selectedItemIds = [];
+    this.editingItemId = null;
+    this.enteredGroupId = null;
   }
 
   public clearWhiteboard() {
+    // Locked items and the items of hidden or locked layers are kept, so the other items are removed one by one
+    const isRemovable = (item: WhiteboardItem) =>
+      !item.locked && this.isItemOnEditableLayer(item);
+    if (!this.items.every(isRemovable)) {
+      this.removeItemsByIds(
+        this.items.filter(isRemovable).map((item) => item.id),
+        true
+      );
+      return;
+    }
+
+    // Items are removed from the end, so that each change index is valid when replayed in order
+    const changes: ItemChange[] = this.items
+      .map((item, index) => ({
+        itemId: item.id,
+        before: item,
+        after: null,
+        index,
+      }))
+      .reverse();
+    this.history.record(changes);
+
     this.resetWhiteboard();
     this.canvasCoords = { x: 0, y: 0, zoom: 1 };
     this.draw();
@@ -394,6 +1258,141 @@ export class SimpleWhiteboard extends LitElement {
     this.dispatchEvent(itemsUpdatedEvent);
   }
 
+  /**
+   * Render the editor used to edit the text of an item in place, on top of the canvas.
+   *
+   * @returns The text editor, or `null` if no text is being edited.
+   */
+  renderTextEditor(): TemplateResult | null {
+    const item = this.editingItemId
+      ? this.getItemById(this.editingItemId)
+      : null;
+    const tool = item ? this.registeredTools.get(item.kind) : undefined;
+    const options = item && tool ? tool.getTextEditingOptions(item) : null;
+    if (!item || !options) {
+      return null;
+    }
+
+    const zoom = this.getZoom();
+    const { x, y } = this.coordsToCanvasCoords(options.rect.x, options.rect.y);
+    const width = options.rect.width * zoom;
+    const height = options.rect.height * zoom;
+
+    // Rotate the editor around the same center as the item
+    const rotationCenter = this.getRotationCenter(item);
+    const origin = rotationCenter
+      ? this.coordsToCanvasCoords(rotationCenter.x, rotationCenter.y)
+      : { x, y };
+
+    const style = {
+      left: `${x}px`,
+      top: `${y}px`,
+      width: options.wrap ? `${width}px` : "auto",
+      "min-width": `${width}px`,
+      "min-height": `${height}px`,
+      font: getCssFont(
+        options.fontSize * zoom,
+        options.fontFamily,
+        options.bold,
+        options.italic
+      ),
+      "text-decoration": options.underline ? "underline" : "none",
+      "line-height": `${options.lineHeight}`,
+      color: options.color,
+      "text-align": options.textAlign,
+      "white-space": options.wrap ? "pre-wrap" : "pre",
+      transform: `rotate(${item.rotation || 0}rad)`,
+      "transform-origin": `${origin.x - x}px ${origin.y - y}px`,
+    };
+
+    return html`<div
+      class="text-editor"
+      contenteditable="true"
+      style=${styleMap(style)}
+      @input=${this.handleTextEditorInput}
+      @keydown=${this.handleTextEditorKeyDown}
+      @blur=${() => this.stopTextEditing()}
+    ></div>`;
+  }
+
+  private handleTextEditorInput(e: InputEvent) {
+    const item = this.editingItemId
+      ? this.getItemById(this.editingItemId)
+      : null;
+    const tool = item ? this.registeredTools.get(item.kind) : undefined;
+    if (!item || !tool) {
+      return;
+    }
+
+    // Browsers add a line break at the end of the editor when the text ends with an empty line
+    const text = (e.target as HTMLElement).innerText.replace(/\n$/, "");
+    this.updateItemById(item.id, tool.setItemText(item, text), true);
+  }
+
+  private handleTextEditorKeyDown(e: KeyboardEvent) {
+    if (e.key === "Escape") {
+      (e.target as HTMLElement).blur();
+    }
+  }
+
+  /**
+   * Start editing the text of an item in place.
+   * All the changes made while editing are undone in one step.
+   *
+   * @param itemId The ID of the item to edit.
+   */
+  public startTextEditing(itemId: string): void {
+    this.stopTextEditing();
+
+    const item = this.getItemById(itemId);
+    const tool = item ? this.registeredTools.get(item.kind) : undefined;
+    if (
+      !item ||
+      item.locked ||
+      !this.isItemOnEditableLayer(item) ||
+      !tool ||
+      !tool.getTextEditingOptions(item)
+    ) {
+      return;
+    }
+
+    this.history.startBatch();
+    this.editingItemId = itemId;
+    this.draw();
+  }
+
+  /**
+   * Stop editing the text of the edited item.
+   * Items that can't be empty are removed if their text is empty.
+   */
+  public stopTextEditing(): void {
+    const itemId = this.editingItemId;
+    if (!itemId) {
+      return;
+    }
+    this.editingItemId = null;
+
+    const item = this.getItemById(itemId);
+    const tool = item ? this.registeredTools.get(item.kind) : undefined;
+    const options = item && tool ? tool.getTextEditingOptions(item) : null;
+    if (options && options.removeIfEmpty && options.text.trim() === "") {
+      this.removeItemById(itemId, true);
+    }
+
+    this.history.endBatch();
+    this.draw();
+  }
+
+  /**
+   * Get the ID of the item whose text is being edited.
+   * Tools should not draw the text of this item, as it is displayed by the text editor.
+   *
+   * @returns The ID of the edited item, or `null` if no text is being edited.
+   */
+  public getEditingItemId(): string | null {
+    return this.editingItemId;
+  }
+
   renderToolsOptions(): TemplateResult | null {
     const selectedItem = this.getSelectedItem();
 
@@ -406,7 +1405,14 @@ export class SimpleWhiteboard extends LitElement {
       return null;
     }
 
-    return html`<div class="tools-options">${options}</div>`;
+    // Moving a slider is one gesture, from the moment it is pressed to the moment its value is committed
+    return html`<div
+      class="tools-options"
+      @pointerdown=${() => this.history.startGesture()}
+      @change=${() => this.history.endGesture()}
+    >
+      ${options}
+    </div>`;
   }
 
   renderToolsList() {
@@ -435,22 +1441,130 @@ export class SimpleWhiteboard extends LitElement {
     return html`<div class="tools">${tools}</div>`;
   }
 
+  /**
+   * Render the panel listing the layers, from top to bottom.
+   * It's collapsed by default.
+   */
+  renderLayersPanel() {
+    const toggle = html`<button
+      class="layers--toggle"
+      @click=${() => {
+        this.layersPanelOpen = !this.layersPanelOpen;
+      }}
+    >
+      ${unsafeHTML(getIconSvg("layers"))} Layers
+      ${unsafeHTML(
+        getIconSvg(this.layersPanelOpen ? "chevron-up" : "chevron-down")
+      )}
+    </button>`;
+    if (!this.layersPanelOpen) {
+      return html`<div class="layers">${toggle}</div>`;
+    }
+
+    const activeLayerId = this.getActiveLayerId();
+    const layers = [...this.layers].reverse().map(
+      (layer, index) => html`<li
+        class=${layer.id === activeLayerId ? "layers--active" : ""}
+      >
+        <input
+          type="text"
+          title="Click to add the new items to this layer"
+          .value=${layer.name}
+          @focus=${() => this.setActiveLayerId(layer.id)}
+          @change=${(e: Event) => {
+            const target = e.target as HTMLInputElement;
+            this.updateLayer(layer.id, { name: target.value });
+          }}
+        />
+        <button
+          title=${layer.visible ? "Hide" : "Show"}
+          @click=${() =>
+            this.updateLayer(layer.id, { visible: !layer.visible })}
+        >
+          ${unsafeHTML(getIconSvg(layer.visible ? "eye" : "eye-off"))}
+        </button>
+        <button
+          title=${layer.locked ? "Unlock" : "Lock"}
+          @click=${() => this.updateLayer(layer.id, { locked: !layer.locked })}
+        >
+          ${unsafeHTML(getIconSvg(layer.locked ? "lock" : "unlock"))}
+        </button>
+        <button
+          title="Move up"
+          ?disabled=${index === 0}
+          @click=${() => this.moveLayer(layer.id, 1)}
+        >
+          ${unsafeHTML(getIconSvg("arrow-up"))}
+        </button>
+        <button
+          title="Move down"
+          ?disabled=${index === this.layers.length - 1}
+          @click=${() => this.moveLayer(layer.id, -1)}
+        >
+          ${unsafeHTML(getIconSvg("arrow-down"))}
+        </button>
+        <button
+          title="Delete the layer and its items"
+          ?disabled=${this.layers.length === 1}
+          @click=${() => this.removeLayer(layer.id)}
+        >
+          ${unsafeHTML(getIconSvg("trash-2"))}
+        </button>
+        <input
+          class="width-100-percent"
+          type="range"
+          title="Opacity"
+          min="0"
+          max="1"
+          step="0.1"
+          .value=${String(layer.opacity)}
+          @input=${(e: Event) => {
+            const target = e.target as HTMLInputElement;
+            this.updateLayer(layer.id, { opacity: parseFloat(target.value) });
+          }}
+        />
+      </li>`
+    );
+
+    return html`<div class="layers">
+      ${toggle}
+      <ul class="layers--list">
+        ${layers}
+      </ul>
+      <button class="width-100-percent" @click=${() => this.addLayer()}>
+        Add a layer
+      </button>
+      ${this.selectedItemIds.length > 0
+        ? html`<button
+            class="width-100-percent"
+            @click=${() => this.moveItemsToLayer(activeLayerId)}
+          >
+            Move the selection to the active layer
+          </button>`
+        : null}
+    </div>`;
+  }
+
   render() {
     return html`
       <div class="root">
         <slot name="tools"></slot>
 
         ${this.renderToolsList()} ${this.renderToolsOptions()}
+        ${this.renderLayersPanel()}
 
         <canvas
           @mousedown="${this.handleMouseDown}"
-          @mouseup="${this.handleMouseUp}"
           @mousemove="${this.handleMouseMove}"
+          @dblclick="${this.handleDoubleClick}"
+          @wheel="${this.handleWheel}"
           @touchstart="${this.handleTouchStart}"
           @touchmove="${this.handleTouchMove}"
           @touchend="${this.handleTouchEnd}"
           @touchcancel="${this.handleTouchCancel}"
         ></canvas>
+
+        ${this.renderTextEditor()}
       </div>
     `;
   }
@@ -464,11 +1578,206 @@ export class SimpleWhiteboard extends LitElement {
     this.draw();
   }
 
+  /**
+   * Export the whiteboard as a versioned document, that can be saved and imported later.
+   *
+   * @returns The document.
+   */
+  public exportDocument(): WhiteboardDocument {
+    return {
+      version: DOCUMENT_VERSION,
+      items: [...this.items],
+      layers: [...this.layers],
+      viewport: { ...this.canvasCoords },
+      settings: {
+        gridSize: this.gridSize,
+        gridStyle: this.gridStyle,
+        snapToGrid: this.snapToGrid,
+      },
+      metadata: { ...this.documentMetadata },
+    };
+  }
+
+  /**
+   * Import a document, replacing the current items and viewport.
+   * Documents from older versions are upgraded to the current version first.
+   * The undo/redo history is reset.
+   *
+   * @param document The document to import ; a bare array of items is also supported.
+   * @throws If the document is invalid or comes from a newer version.
+   */
+  public importDocument(document: unknown) {
+    const { items, layers, viewport, settings, metadata } =
+      migrateDocument(document);
+
+    this.resetWhiteboard();
+    this.history.clear();
+    this.setLayers(layers);
+    this.documentMetadata = metadata;
+    this.canvasCoords = { ...viewport };
+    this.gridSize = settings.gridSize ?? this.gridSize;
+    this.gridStyle = settings.gridStyle ?? this.gridStyle;
+    this.snapToGrid = settings.snapToGrid ?? this.snapToGrid;
+    this.setItems(items);
+  }
+
+  /**
+   * Export items as an image.
+   * The items are drawn on an offscreen canvas cropped to them, whatever the current position and zoom of the canvas.
+   *
+   * @param options The export options.
+   * @returns A promise resolving to the image.
+   */
+  public async exportImage(options: ExportImageOptions = {}): Promise<Blob> {
+    const {
+      type = "image/png",
+      scale = 1,
+      padding = 16,
+      background = "#ffffff",
+      onlySelected = false,
+    } = options;
+    const items = (
+      onlySelected ? this.getSelectedItemsWithGroupMembers() : this.items
+    ).filter((item) => this.isItemOnVisibleLayer(item));
+
+    await Promise.all(
+      items.map((item) => {
+        const tool = this.registeredTools.get(item.kind);
+        return tool ? tool.loadItemResources(item) : Promise.resolve();
+      })
+    );
+
+    const boundingRects = items
+      .map((item) => this.getBoundingRect(item))
+      .filter((rect): rect is BoundingRect => !!rect);
+    const bounds = getRectsBoundingRect(boundingRects) || {
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+    };
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.ceil((bounds.width + padding * 2) * scale));
+    canvas.height = Math.max(
+      1,
+      Math.ceil((bounds.height + padding * 2) * scale)
+    );
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas context not found");
+    }
+
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // Tools draw items relative to the canvas coordinates, so they are temporarily set to match the export
+    const rc = rough.canvas(canvas, { options: { seed: 42 } });
+    const canvasCoords = this.canvasCoords;
+    this.canvasCoords = {
+      x: (padding - bounds.x) * scale,
+      y: (padding - bounds.y) * scale,
+      zoom: scale,
+    };
+    try {
+      this.drawItemsByLayer(rc, context, items);
+    } finally {
+      this.canvasCoords = canvasCoords;
+    }
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error("Failed to export the image"));
+          return;
+        }
+        resolve(blob);
+      }, type);
+    });
+  }
+
+  /**
+   * Export items as an SVG document.
+   * The document is cropped to the items, whatever the current position and zoom of the canvas.
+   *
+   * @param options The export options.
+   * @returns The SVG markup.
+   */
+  public exportSvg(options: ExportSvgOptions = {}): string {
+    const { itemsOrSelection, padding = 16, background = null } = options;
+    const items = (
+      itemsOrSelection === "selection"
+        ? this.getSelectedItemsWithGroupMembers()
+        : itemsOrSelection || this.items
+    ).filter((item) => this.isItemOnVisibleLayer(item));
+
+    const boundingRects = items
+      .map((item) => this.getBoundingRect(item))
+      .filter((rect): rect is BoundingRect => !!rect);
+    const bounds = getRectsBoundingRect(boundingRects) || {
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+    };
+    const x = bounds.x - padding;
+    const y = bounds.y - padding;
+    const width = bounds.width + padding * 2;
+    const height = bounds.height + padding * 2;
+
+    const getItemSvg = (item: WhiteboardItem) => {
+      const tool = this.registeredTools.get(item.kind);
+      const svg = tool ? tool.toSvg(item) : null;
+      if (!svg) {
+        return "";
+      }
+
+      const rotationCenter = item.rotation
+        ? this.getRotationCenter(item)
+        : null;
+      if (!rotationCenter) {
+        return svg;
+      }
+      const degrees = ((item.rotation || 0) * 180) / Math.PI;
+      return `<g transform="rotate(${degrees} ${rotationCenter.x} ${rotationCenter.y})">${svg}</g>`;
+    };
+    // Layers with an opacity are wrapped in a group
+    const content = getItemsByLayer(this.layers, items)
+      .map(({ layer, items }) => {
+        const layerContent = items.map(getItemSvg).join("");
+        if (!layerContent || layer.opacity === 1) {
+          return layerContent;
+        }
+        return `<g opacity="${layer.opacity}">${layerContent}</g>`;
+      })
+      .join("");
+
+    const backgroundRect = background
+      ? `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escapeXml(
+          background
+        )}"/>`
+      : "";
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">${backgroundRect}${content}</svg>`;
+  }
+
   public addItem(item: WhiteboardItem, sendEvent: boolean = false) {
+    item = this.withLayerId(item, this.getLayerIdForNewItems());
     this.items.push(item);
     this.draw();
 
     if (sendEvent) {
+      this.history.record([
+        {
+          itemId: item.id,
+          before: null,
+          after: item,
+          index: this.items.length - 1,
+        },
+      ]);
+
       const itemsUpdatedEvent = new CustomEvent("items-updated", {
         detail: {
           type: "add",
@@ -487,7 +1796,7 @@ export class SimpleWhiteboard extends LitElement {
       return;
     }
 
-    this.items[index] = item;
+    this.items[index] = this.withLayerId(item, this.items[index].layerId);
     this.draw();
   }
 
@@ -505,6 +1814,9 @@ export class SimpleWhiteboard extends LitElement {
   }
 
   public setCurrentTool(tool: string, updatePreviousTool = true) {
+    if (tool !== this.currentTool) {
+      this.handleDrawingCancel();
+    }
     if (updatePreviousTool) {
       this.previousTool = this.currentTool;
     }
@@ -534,12 +1846,102 @@ export class SimpleWhiteboard extends LitElement {
     this.draw();
   }
 
+  private clampZoom(zoom: number): number {
+    return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+  }
+
+  /**
+   * Get the current zoom level.
+   *
+   * @returns The zoom level, `1` being the original size.
+   */
+  public getZoom(): number {
+    return this.canvasCoords.zoom;
+  }
+
+  /**
+   * Set the zoom level.
+   *
+   * @param zoom The new zoom level ; it is clamped between the minimum and maximum zoom levels.
+   * @param center The point of the canvas that should stay in place ; defaults to the center of the canvas.
+   */
+  public setZoom(zoom: number, center?: Point) {
+    const { x: canvasX, y: canvasY, zoom: previousZoom } = this.canvasCoords;
+    const newZoom = this.clampZoom(zoom);
+    const { x: centerX, y: centerY } = center || {
+      x: (this.canvas?.width || 0) / 2,
+      y: (this.canvas?.height || 0) / 2,
+    };
+
+    const ratio = newZoom / previousZoom;
+    this.setCanvasCoords({
+      x: centerX - (centerX - canvasX) * ratio,
+      y: centerY - (centerY - canvasY) * ratio,
+      zoom: newZoom,
+    });
+  }
+
+  /**
+   * Zoom in, keeping the center of the canvas in place.
+   */
+  public zoomIn() {
+    this.setZoom(this.getZoom() * ZOOM_STEP);
+  }
+
+  /**
+   * Zoom out, keeping the center of the canvas in place.
+   */
+  public zoomOut() {
+    this.setZoom(this.getZoom() / ZOOM_STEP);
+  }
+
   public setSelectedItemId(itemId: string | null) {
-    this.selectedItemId = itemId;
+    this.selectedItemIds = itemId ? [itemId] : [];
   }
 
+  /**
+   * Get the ID of the selected item.
+   *
+   * @returns The ID of the selected item, or `null` if there is not exactly one selected item.
+   */
   public getSelectedItemId(): string | null {
-    return this.selectedItemId;
+    return this.selectedItemIds.length === 1 ? this.selectedItemIds[0] : null;
+  }
+
+  public setSelectedItemIds(itemIds: string[]) {
+    this.selectedItemIds = itemIds;
+    this.draw();
+  }
+
+  public getSelectedItemIds(): string[] {
+    return this.selectedItemIds;
+  }
+
+  public isItemSelected(itemId: string): boolean {
+    return this.selectedItemIds.includes(itemId);
+  }
+
+  public getSelectedItems(): WhiteboardItem[] {
+    return this.items.filter((item) => this.selectedItemIds.includes(item.id));
+  }
+
+  /**
+   * Get the selected items and the members of the selected groups, in their drawing order.
+   *
+   * @returns The selected items and their members.
+   */
+  private getSelectedItemsWithGroupMembers(): WhiteboardItem[] {
+    const itemIds = this.getItemIdsWithGroupMembers(this.selectedItemIds);
+    return this.items.filter((item) => itemIds.includes(item.id));
+  }
+
+  /**
+   * Get the state of the modifier keys during the last keyboard or mouse event.
+   *
+   * @returns The state of the Shift, Ctrl, Alt and Meta keys.
+   */
+  public getModifierKeys(): ModifierKeys {
+    return this.modifierKeys;
   }
 
   public getToolInstance(toolName: string): SimpleWhiteboardTool | undefined {
@@ -551,11 +1953,12 @@ export class SimpleWhiteboard extends LitElement {
   }
 
   public getSelectedItem(): WhiteboardItem | null {
-    if (!this.selectedItemId) {
+    const selectedItemId = this.getSelectedItemId();
+    if (!selectedItemId) {
       return null;
     }
 
-    return this.getItemById(this.selectedItemId);
+    return this.getItemById(selectedItemId);
   }
 
   public updateItemById(
@@ -566,22 +1969,32 @@ export class SimpleWhiteboard extends LitElement {
     const index = this.items.findIndex(
       (item: WhiteboardItem) => item.id === itemId
     );
-    if (index === -1) {
+    if (index === -1 || !this.canUpdateItem(this.items[index], item)) {
       return;
     }
 
+    const previousItem = this.items[index];
+    item = this.withLayerId(item, previousItem.layerId);
     this.items[index] = item;
+    const [change, ...connectorChanges] = this.updateBoundConnectors([
+      itemId,
+    ]).reduce(mergeChange, [
+      { itemId, before: previousItem, after: item, index },
+    ]);
     this.draw();
 
     if (sendEvent) {
+      this.history.record([change, ...connectorChanges], `update:${itemId}`);
+
       const itemsUpdatedEvent = new CustomEvent("items-updated", {
         detail: {
           type: "update",
           itemId,
-          item,
+          item: change.after,
         },
       });
       this.dispatchEvent(itemsUpdatedEvent);
+      connectorChanges.forEach((change) => this.dispatchChangeEvent(change));
     }
 
     this.requestUpdate();
@@ -591,14 +2004,26 @@ export class SimpleWhiteboard extends LitElement {
     const index = this.items.findIndex(
       (item: WhiteboardItem) => item.id === itemId
     );
-    if (index === -1) {
+    if (index === -1 || this.items[index].locked) {
       return;
     }
 
-    this.items.splice(index, 1);
+    const [removedItem] = this.items.splice(index, 1);
+    const relatedChanges = [
+      ...this.releaseBoundConnectors([itemId]),
+      ...this.releaseGroupMembers([itemId]),
+    ];
+    this.selectedItemIds = this.selectedItemIds.filter((id) =>
+      this.items.some((item) => item.id === id)
+    );
     this.draw();
 
     if (sendEvent) {
+      this.history.record([
+        { itemId, before: removedItem, after: null, index },
+        ...relatedChanges,
+      ]);
+
       const itemsUpdatedEvent = new CustomEvent("items-updated", {
         detail: {
           type: "remove",
@@ -606,8 +2031,1133 @@ export class SimpleWhiteboard extends LitElement {
         },
       });
       this.dispatchEvent(itemsUpdatedEvent);
+      relatedChanges.forEach((change) => this.dispatchChangeEvent(change));
+    }
+
+    this.requestUpdate();
+  }
+
+  /**
+   * Update multiple items at once.
+   * The changes are recorded as one history step and sent as one `batch-update` event.
+   *
+   * @param items The updated items ; items that do not exist are ignored.
+   * @param sendEvent Whether to send an `items-updated` event.
+   */
+  public updateItems(items: WhiteboardItem[], sendEvent = false) {
+    let changes: ItemChange[] = [];
+    items.forEach((updatedItem) => {
+      const index = this.items.findIndex((i) => i.id === updatedItem.id);
+      if (index === -1 || !this.canUpdateItem(this.items[index], updatedItem)) {
+        return;
+      }
+      const item = this.withLayerId(updatedItem, this.items[index].layerId);
+      changes.push({
+        itemId: item.id,
+        before: this.items[index],
+        after: item,
+        index,
+      });
+      this.items[index] = item;
+    });
+
+    if (changes.length === 0) {
+      return;
+    }
+    changes = this.updateBoundConnectors(
+      changes.map((change) => change.itemId)
+    ).reduce(mergeChange, changes);
+    this.draw();
+
+    if (sendEvent) {
+      const updatedItems = changes.map((change) => change.after);
+      this.history.record(
+        changes,
+        `update:${changes.map((change) => change.itemId).join(",")}`
+      );
+
+      const itemsUpdatedEvent = new CustomEvent("items-updated", {
+        detail: {
+          type: "batch-update",
+          items: updatedItems,
+        },
+      });
+      this.dispatchEvent(itemsUpdatedEvent);
+    }
+
+    this.requestUpdate();
+  }
+
+  /**
+   * Remove multiple items at once.
+   * The changes are recorded as one history step.
+   *
+   * @param itemIds The IDs of the items to remove.
+   * @param sendEvent Whether to send an `items-updated` event for each removed item.
+   */
+  public removeItemsByIds(itemIds: string[], sendEvent = false) {
+    const changes: ItemChange[] = [];
+    itemIds.forEach((itemId) => {
+      const index = this.items.findIndex((item) => item.id === itemId);
+      if (index === -1 || this.items[index].locked) {
+        return;
+      }
+      const [removedItem] = this.items.splice(index, 1);
+      changes.push({ itemId, before: removedItem, after: null, index });
+    });
+
+    if (changes.length === 0) {
+      return;
+    }
+    const removedItemIds = changes.map((change) => change.itemId);
+    changes.push(
+      ...this.releaseBoundConnectors(removedItemIds),
+      ...this.releaseGroupMembers(removedItemIds)
+    );
+    this.selectedItemIds = this.selectedItemIds.filter((id) =>
+      this.items.some((item) => item.id === id)
+    );
+    this.draw();
+
+    if (sendEvent) {
+      this.history.record(changes);
+      changes.forEach((change) => this.dispatchChangeEvent(change));
     }
 
     this.requestUpdate();
   }
+
+  /**
+   * Move items by an offset each, as one update.
+   * Items that have no bounding rect or no tool are left in place.
+   *
+   * @param itemIds The IDs of the items to move.
+   * @param getOffsets Computes the offset of each item from their bounding rects, in the same order.
+   */
+  private moveItemsByOffsets(
+    itemIds: string[],
+    getOffsets: (rects: BoundingRect[]) => Point[]
+  ): void {
+    const movableItems = this.items
+      .filter((item) => itemIds.includes(item.id))
+      .map((item) => ({
+        item,
+        tool: this.registeredTools.get(item.kind),
+        rect: this.getBoundingRect(item),
+      }))
+      .filter(
+        (
+          entry
+        ): entry is {
+          item: WhiteboardItem;
+          tool: SimpleWhiteboardTool;
+          rect: BoundingRect;
+        } => !!entry.tool && !!entry.rect
+      );
+
+    const offsets = getOffsets(movableItems.map(({ rect }) => rect));
+    const movedItems = movableItems
+      .flatMap(({ item }, index) => {
+        const offset = offsets[index];
+        if (!offset || (offset.x === 0 && offset.y === 0)) {
+          return [];
+        }
+        // Groups are moved through their members
+        return this.getItemIdsWithGroupMembers([item.id])
+          .map((itemId) => this.getItemById(itemId))
+          .filter(
+            (member): member is WhiteboardItem =>
+              !!member && !isGroupItem(member)
+          )
+          .map((member) => {
+            const tool = this.registeredTools.get(member.kind);
+            if (!tool) {
+              return member;
+            }
+            const coords = tool.getCoordsItem(member);
+            return tool.setCoordsItem(
+              member,
+              coords.x + offset.x,
+              coords.y + offset.y
+            );
+          });
+      })
+      .filter((item): item is WhiteboardItem => !!item);
+
+    this.updateItems(movedItems, true);
+  }
+
+  /**
+   * Align items on the edge or the center of the rect containing all of them.
+   * The moves are sent as one `batch-update` event.
+   *
+   * @param alignment How to align the items.
+   * @param itemIds The IDs of the items to align ; the selected items by default.
+   */
+  public alignItems(
+    alignment: Alignment,
+    itemIds: string[] = this.selectedItemIds
+  ): void {
+    this.moveItemsByOffsets(itemIds, (rects) =>
+      getAlignmentOffsets(rects, alignment)
+    );
+  }
+
+  /**
+   * Move items so that the spaces between them are equal on an axis.
+   * At least three items are needed ; the moves are sent as one `batch-update` event.
+   *
+   * @param axis The axis on which the items are distributed.
+   * @param itemIds The IDs of the items to distribute ; the selected items by default.
+   */
+  public distributeItems(
+    axis: DistributionAxis,
+    itemIds: string[] = this.selectedItemIds
+  ): void {
+    this.moveItemsByOffsets(itemIds, (rects) =>
+      getDistributionOffsets(rects, axis)
+    );
+  }
+
+  /**
+   * Get the items in a new drawing order, where some items are moved to given positions.
+   * The other items keep their relative order and fill the remaining positions.
+   *
+   * @param positions The new position of each moved item, by ID.
+   * @returns The reordered items.
+   */
+  private moveItemsToIndexes(positions: Map<string, number>): WhiteboardItem[] {
+    const movedItems = this.items
+      .filter((item) => positions.has(item.id))
+      .sort(
+        (a, b) =>
+          (positions.get(a.id) as number) - (positions.get(b.id) as number)
+      );
+    const otherItems = this.items.filter((item) => !positions.has(item.id));
+
+    const items: WhiteboardItem[] = [];
+    while (movedItems.length > 0 || otherItems.length > 0) {
+      const nextMovedItem = movedItems[0];
+      if (
+        nextMovedItem &&
+        ((positions.get(nextMovedItem.id) as number) <= items.length ||
+          otherItems.length === 0)
+      ) {
+        items.push(movedItems.shift() as WhiteboardItem);
+      } else {
+        items.push(otherItems.shift() as WhiteboardItem);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Send a `reorder` event with the IDs of all the items, in their drawing order.
+   */
+  private dispatchReorderEvent(): void {
+    this.dispatchEvent(
+      new CustomEvent("items-updated", {
+        detail: {
+          type: "reorder",
+          itemIds: this.items.map((item) => item.id),
+        },
+      })
+    );
+  }
+
+  /**
+   * Change the drawing order of items: the first items are drawn first, under the next ones.
+   * Only the listed items are reordered, in the positions they already take ; the other items stay in place.
+   * This can be used to apply the order received in a `reorder` event.
+   *
+   * @param itemIds The IDs of the items in their new order ; unknown IDs are ignored.
+   * @param sendEvent Whether to send a `reorder` event.
+   */
+  public reorderItems(itemIds: string[], sendEvent = false) {
+    const order = new Map(itemIds.map((itemId, index) => [itemId, index]));
+    const reorderedItems = this.items
+      .filter((item) => order.has(item.id))
+      .sort(
+        (a, b) => (order.get(a.id) as number) - (order.get(b.id) as number)
+      );
+    const items = this.items.map((item) =>
+      order.has(item.id) ? (reorderedItems.shift() as WhiteboardItem) : item
+    );
+
+    const changes: ItemChange[] = [];
+    items.forEach((item, newIndex) => {
+      const index = this.items.indexOf(item);
+      if (index !== newIndex) {
+        changes.push({
+          itemId: item.id,
+          before: item,
+          after: item,
+          index,
+          newIndex,
+        });
+      }
+    });
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.items = items;
+    this.draw();
+
+    if (sendEvent) {
+      this.history.record(changes);
+      this.dispatchReorderEvent();
+    }
+
+    this.requestUpdate();
+  }
+
+  /**
+   * Move items above all the other items.
+   *
+   * @param itemIds The IDs of the items to move, groups being moved with their members ; the selected items by default.
+   */
+  public bringToFront(itemIds: string[] = this.selectedItemIds) {
+    const movedItemIds = this.getItemIdsWithGroupMembers(itemIds);
+    const movedItems = this.items.filter((item) =>
+      movedItemIds.includes(item.id)
+    );
+    const otherItems = this.items.filter(
+      (item) => !movedItemIds.includes(item.id)
+    );
+    this.reorderItems(
+      [...otherItems, ...movedItems].map((item) => item.id),
+      true
+    );
+  }
+
+  /**
+   * Move items below all the other items.
+   *
+   * @param itemIds The IDs of the items to move, groups being moved with their members ; the selected items by default.
+   */
+  public sendToBack(itemIds: string[] = this.selectedItemIds) {
+    const movedItemIds = this.getItemIdsWithGroupMembers(itemIds);
+    const movedItems = this.items.filter((item) =>
+      movedItemIds.includes(item.id)
+    );
+    const otherItems = this.items.filter(
+      (item) => !movedItemIds.includes(item.id)
+    );
+    this.reorderItems(
+      [...movedItems, ...otherItems].map((item) => item.id),
+      true
+    );
+  }
+
+  /**
+   * Move items one step up, above the next item of their layer that is not moved.
+   *
+   * @param itemIds The IDs of the items to move, groups being moved with their members ; the selected items by default.
+   */
+  public bringForward(itemIds: string[] = this.selectedItemIds) {
+    this.moveItemsOneStep(itemIds, true);
+  }
+
+  /**
+   * Move items one step down, below the previous item of their layer that is not moved.
+   *
+   * @param itemIds The IDs of the items to move, groups being moved with their members ; the selected items by default.
+   */
+  public sendBackward(itemIds: string[] = this.selectedItemIds) {
+    this.moveItemsOneStep(itemIds, false);
+  }
+
+  /**
+   * Move items past the next or previous item of their layer, as layers are drawn one after the other.
+   * The items of the other layers keep their place.
+   *
+   * @param itemIds The IDs of the items to move.
+   * @param forward `true` to move the items up, `false` to move them down.
+   */
+  private moveItemsOneStep(itemIds: string[], forward: boolean) {
+    const movedItemIds = this.getItemIdsWithGroupMembers(itemIds);
+    const order = [...this.items];
+    const isOnSameLayer = (a: WhiteboardItem, b: WhiteboardItem) =>
+      getItemLayer(this.layers, a) === getItemLayer(this.layers, b);
+
+    const step = forward ? 1 : -1;
+    for (
+      let i = forward ? order.length - 1 : 0;
+      i >= 0 && i < order.length;
+      i -= step
+    ) {
+      const item = order[i];
+      if (!movedItemIds.includes(item.id)) {
+        continue;
+      }
+      let target = i + step;
+      while (
+        target >= 0 &&
+        target < order.length &&
+        !isOnSameLayer(item, order[target])
+      ) {
+        target += step;
+      }
+      if (
+        target < 0 ||
+        target >= order.length ||
+        movedItemIds.includes(order[target].id)
+      ) {
+        continue;
+      }
+      order.splice(i, 1);
+      order.splice(target, 0, item);
+    }
+    this.reorderItems(
+      order.map((item) => item.id),
+      true
+    );
+  }
+
+  /**
+   * Get the ID of the group whose members are selected one by one.
+   *
+   * @returns The ID of the entered group, or `null` if the items are selected as a whole.
+   */
+  public getEnteredGroupId(): string | null {
+    if (this.enteredGroupId && !this.getItemById(this.enteredGroupId)) {
+      return null;
+    }
+    return this.enteredGroupId;
+  }
+
+  /**
+   * Enter a group, so that its members can be selected one by one, or leave the entered group.
+   *
+   * @param groupId The ID of the group to enter, or `null` to select the items as a whole again.
+   */
+  public enterGroup(groupId: string | null) {
+    this.enteredGroupId = groupId;
+    this.draw();
+  }
+
+  /**
+   * Get the group an item directly belongs to.
+   *
+   * @param itemId The ID of the item.
+   * @returns The group containing the item, or `null` if it is not in a group.
+   */
+  public getParentGroup(itemId: string): GroupItem | null {
+    return findParentGroup(this.items, itemId);
+  }
+
+  /**
+   * Check if an item is a member of a group, or of one of its nested groups.
+   *
+   * @param itemId The ID of the item.
+   * @param groupId The ID of the group.
+   * @returns `true` if the item is in the group.
+   */
+  public isItemInGroup(itemId: string, groupId: string): boolean {
+    return getGroupMemberIds(this.items, groupId).includes(itemId);
+  }
+
+  /**
+   * Get the item that is selected when clicking on an item.
+   * It's the outermost group containing the item, or the member of the entered group containing it.
+   *
+   * @param item The clicked item.
+   * @returns The item to select.
+   */
+  public getSelectableItem(item: WhiteboardItem): WhiteboardItem {
+    const enteredGroupId = this.getEnteredGroupId();
+    const visitedItemIds = [item.id];
+    let selectableItem = item;
+    let parent = this.getParentGroup(item.id);
+    while (
+      parent &&
+      parent.id !== enteredGroupId &&
+      !visitedItemIds.includes(parent.id)
+    ) {
+      visitedItemIds.push(parent.id);
+      selectableItem = parent;
+      parent = this.getParentGroup(parent.id);
+    }
+    return selectableItem;
+  }
+
+  /**
+   * Add the members of the groups to a list of items.
+   *
+   * @param itemIds The IDs of the items.
+   * @returns The IDs of the items and of all the members of the groups among them.
+   */
+  public getItemIdsWithGroupMembers(itemIds: string[]): string[] {
+    const result = [...itemIds];
+    itemIds.forEach((itemId) => {
+      getGroupMemberIds(this.items, itemId).forEach((memberId) => {
+        if (!result.includes(memberId)) {
+          result.push(memberId);
+        }
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Group items, so that they are selected and moved together, and select the new group.
+   * The items leave the groups they were in, and the new group takes the place of the first item in its group.
+   * The changes are undone in one step.
+   *
+   * @param itemIds The IDs of the items to group ; the selected items by default.
+   * @returns The ID of the new group, or `null` if there are less than two items to group.
+   */
+  public groupItems(itemIds: string[] = this.selectedItemIds): string | null {
+    const tool = this.registeredTools.get(GROUP_KIND);
+    const childIds = itemIds.filter((itemId) => {
+      const item = this.getItemById(itemId);
+      return !!item && !item.locked;
+    });
+    if (!tool || childIds.length < 2) {
+      return null;
+    }
+
+    const group: GroupItem = {
+      kind: GROUP_KIND,
+      id: tool.generateId(),
+      options: { childIds },
+      layerId: this.getItemById(childIds[0])?.layerId,
+    };
+    const parent = this.getParentGroup(childIds[0]);
+    const updatedGroups = this.items
+      .filter(isGroupItem)
+      .filter((item) =>
+        item.options.childIds.some((childId) => childIds.includes(childId))
+      )
+      .map((item) => ({
+        ...item,
+        options: {
+          ...item.options,
+          childIds: item.options.childIds.flatMap((childId) => {
+            if (childId === childIds[0] && parent && item.id === parent.id) {
+              return [group.id];
+            }
+            return childIds.includes(childId) ? [] : [childId];
+          }),
+        },
+      }));
+
+    this.history.startBatch();
+    this.addItem(group, true);
+    this.updateItems(updatedGroups, true);
+    this.history.endBatch();
+
+    this.setSelectedItemIds([group.id]);
+    return group.id;
+  }
+
+  /**
+   * Ungroup groups and select their members.
+   * The members take the place of their group in its own group, if it is in one.
+   * The changes are undone in one step.
+   *
+   * @param itemIds The IDs of the groups ; the selected items by default, items that are not groups are ignored.
+   */
+  public ungroupItems(itemIds: string[] = this.selectedItemIds) {
+    const groups = this.items
+      .filter(isGroupItem)
+      .filter((item) => itemIds.includes(item.id) && !item.locked);
+    if (groups.length === 0) {
+      return;
+    }
+
+    const memberIds: string[] = [];
+    this.history.startBatch();
+    groups.forEach((group) => {
+      const parent = this.getParentGroup(group.id);
+      if (parent) {
+        this.updateItemById(
+          parent.id,
+          {
+            ...parent,
+            options: {
+              ...parent.options,
+              childIds: parent.options.childIds.flatMap((childId) =>
+                childId === group.id ? group.options.childIds : [childId]
+              ),
+            },
+          },
+          true
+        );
+      }
+      memberIds.push(...group.options.childIds);
+      this.removeItemById(group.id, true);
+    });
+    this.history.endBatch();
+
+    this.setSelectedItemIds(
+      memberIds.filter((memberId) => !!this.getItemById(memberId))
+    );
+  }
+
+  /**
+   * Lock or unlock items, with the members of the groups among them.
+   *
+   * @param itemIds The IDs of the items.
+   * @param locked `true` to lock the items, `false` to unlock them.
+   */
+  private setItemsLocked(itemIds: string[], locked: boolean): void {
+    const items = this.getItemIdsWithGroupMembers(itemIds)
+      .map((itemId) => this.getItemById(itemId))
+      .filter(
+        (item): item is WhiteboardItem => !!item && !!item.locked !== locked
+      )
+      .map((item) => ({ ...item, locked }));
+    this.updateItems(items, true);
+  }
+
+  /**
+   * Lock items, so that they can only be selected explicitly (holding Alt with the Pointer tool), and can't be changed or removed.
+   * The members of the locked groups are locked too.
+   *
+   * @param itemIds The IDs of the items to lock ; the selected items by default.
+   */
+  public lockItems(itemIds: string[] = this.selectedItemIds) {
+    this.setItemsLocked(itemIds, true);
+  }
+
+  /**
+   * Unlock items, with the members of the groups among them.
+   *
+   * @param itemIds The IDs of the items to unlock ; the selected items by default.
+   */
+  public unlockItems(itemIds: string[] = this.selectedItemIds) {
+    this.setItemsLocked(itemIds, false);
+  }
+
+  /**
+   * Put an item on a layer, if it is not on one yet.
+   * Tools create and update items without knowing about layers, so the layer of an item is kept when it is updated.
+   *
+   * @param item The item.
+   * @param layerId The ID of the layer to put the item on.
+   * @returns The item with a layer.
+   */
+  private withLayerId(
+    item: WhiteboardItem,
+    layerId: string | undefined
+  ): WhiteboardItem {
+    if (item.layerId !== undefined || layerId === undefined) {
+      return item;
+    }
+    return { ...item, layerId };
+  }
+
+  /**
+   * Check if an item is on a visible layer.
+   *
+   * @param item The item.
+   * @returns `true` if the layer of the item is visible.
+   */
+  public isItemOnVisibleLayer(item: WhiteboardItem): boolean {
+    const layer = getItemLayer(this.layers, item);
+    return !layer || layer.visible;
+  }
+
+  /**
+   * Check if an item is on a visible and unlocked layer, so that it can be selected or erased.
+   *
+   * @param item The item.
+   * @returns `true` if the layer of the item is visible and unlocked.
+   */
+  public isItemOnEditableLayer(item: WhiteboardItem): boolean {
+    const layer = getItemLayer(this.layers, item);
+    return !layer || (layer.visible && !layer.locked);
+  }
+
+  /**
+   * Get the items of the visible layers, in the order they are drawn.
+   *
+   * @returns The items, from the bottom to the top.
+   */
+  public getItemsInDrawingOrder(): WhiteboardItem[] {
+    return getItemsByLayer(this.layers, this.items)
+      .filter(({ layer }) => layer.visible)
+      .flatMap(({ items }) => items);
+  }
+
+  public getLayers(): Layer[] {
+    return this.layers;
+  }
+
+  /**
+   * Replace the layers, for example to apply the layers received in a `layers-updated` event.
+   * The items of the layers that don't exist anymore are moved to the bottom layer.
+   *
+   * @param layers The layers, from bottom to top ; the default layer is used if the list is empty.
+   */
+  public setLayers(layers: Layer[]) {
+    this.layers = layers.length > 0 ? layers : [createDefaultLayer()];
+    this.selectedItemIds = this.selectedItemIds.filter((itemId) => {
+      const item = this.getItemById(itemId);
+      return !!item && this.isItemOnEditableLayer(item);
+    });
+    this.draw();
+  }
+
+  /**
+   * Change the layers and send a `layers-updated` event.
+   *
+   * @param layers The new layers, from bottom to top.
+   */
+  private updateLayers(layers: Layer[]): void {
+    this.setLayers(layers);
+    this.dispatchEvent(
+      new CustomEvent("layers-updated", { detail: { layers: this.layers } })
+    );
+  }
+
+  /**
+   * Get the ID of the layer new items are added to.
+   *
+   * @returns The ID of the active layer.
+   */
+  public getActiveLayerId(): string {
+    const activeLayer = this.layers.find(
+      (layer) => layer.id === this.activeLayerId
+    );
+    return activeLayer
+      ? activeLayer.id
+      : this.layers[this.layers.length - 1].id;
+  }
+
+  public setActiveLayerId(layerId: string) {
+    this.activeLayerId = layerId;
+  }
+
+  /**
+   * Get the ID of the layer new items are added to, so that they can be seen and selected.
+   * This is the active layer, or the topmost editable layer if it is hidden or locked.
+   * A new layer is added if no layer is editable.
+   *
+   * @returns The ID of the layer.
+   */
+  private getLayerIdForNewItems(): string {
+    const isEditable = (layer: Layer) => layer.visible && !layer.locked;
+    const activeLayer = this.layers.find(
+      (layer) => layer.id === this.getActiveLayerId()
+    );
+    if (activeLayer && isEditable(activeLayer)) {
+      return activeLayer.id;
+    }
+
+    const editableLayers = this.layers.filter(isEditable);
+    if (editableLayers.length > 0) {
+      return editableLayers[editableLayers.length - 1].id;
+    }
+    return this.addLayer().id;
+  }
+
+  /**
+   * Add a layer on top of the others, and make it the active layer.
+   *
+   * @param name The name of the layer.
+   * @returns The new layer.
+   */
+  public addLayer(name = `Layer ${this.layers.length + 1}`): Layer {
+    const layer: Layer = {
+      id: uuidv4(),
+      name,
+      visible: true,
+      locked: false,
+      opacity: 1,
+    };
+    this.updateLayers([...this.layers, layer]);
+    this.activeLayerId = layer.id;
+    return layer;
+  }
+
+  /**
+   * Rename a layer, show or hide it, lock or unlock it, or change its opacity.
+   * The items of a layer that is hidden or locked are unselected.
+   *
+   * @param layerId The ID of the layer.
+   * @param changes The properties of the layer to change.
+   */
+  public updateLayer(layerId: string, changes: Partial<Omit<Layer, "id">>) {
+    this.updateLayers(
+      this.layers.map((layer) =>
+        layer.id === layerId ? { ...layer, ...changes } : layer
+      )
+    );
+  }
+
+  /**
+   * Move a layer up or down.
+   *
+   * @param layerId The ID of the layer.
+   * @param offset The number of positions to move the layer by: positive to move it up, negative to move it down.
+   */
+  public moveLayer(layerId: string, offset: number) {
+    const index = this.layers.findIndex((layer) => layer.id === layerId);
+    if (index === -1) {
+      return;
+    }
+    const newIndex = Math.max(
+      0,
+      Math.min(this.layers.length - 1, index + offset)
+    );
+    if (newIndex === index) {
+      return;
+    }
+    const layers = [...this.layers];
+    const [layer] = layers.splice(index, 1);
+    layers.splice(newIndex, 0, layer);
+    this.updateLayers(layers);
+  }
+
+  /**
+   * Remove a layer and its items ; the last layer can't be removed.
+   * Locked items are kept, on the bottom layer.
+   *
+   * @param layerId The ID of the layer.
+   */
+  public removeLayer(layerId: string) {
+    const layer = this.layers.find((layer) => layer.id === layerId);
+    if (!layer || this.layers.length === 1) {
+      return;
+    }
+
+    // The layer is removed in the same step as its items, so that undoing it brings both back
+    const layerChange: LayerChange = {
+      layerId,
+      before: layer,
+      after: null,
+      index: this.layers.indexOf(layer),
+    };
+    this.history.startBatch();
+    this.removeItemsByIds(
+      this.items
+        .filter((item) => getItemLayer(this.layers, item) === layer)
+        .map((item) => item.id),
+      true
+    );
+    this.history.record([], null, [layerChange]);
+    this.updateLayers(this.layers.filter((layer) => layer.id !== layerId));
+    this.history.endBatch();
+  }
+
+  /**
+   * Move items to a layer, with the members of the groups among them.
+   *
+   * @param layerId The ID of the layer.
+   * @param itemIds The IDs of the items to move ; the selected items by default.
+   */
+  public moveItemsToLayer(
+    layerId: string,
+    itemIds: string[] = this.selectedItemIds
+  ) {
+    if (!this.layers.some((layer) => layer.id === layerId)) {
+      return;
+    }
+    const items = this.getItemIdsWithGroupMembers(itemIds)
+      .map((itemId) => this.getItemById(itemId))
+      .filter((item): item is WhiteboardItem => !!item)
+      .map((item) => ({ ...item, layerId }));
+    this.updateItems(items, true);
+  }
+
+  /**
+   * Move the connectors attached to some items, so that they follow them.
+   * Updated connectors are detached from the items their moved ends are not on anymore.
+   *
+   * @param itemIds The IDs of the updated items.
+   * @returns The changes made to the connectors.
+   */
+  private updateBoundConnectors(itemIds: string[]): ItemChange[] {
+    const changes: ItemChange[] = [];
+    this.items.forEach((item, index) => {
+      const tool = this.registeredTools.get(item.kind);
+      if (!tool) {
+        return;
+      }
+      const boundItemIds = tool.getBoundItemIds(item);
+      // Locked connectors stay where they are, even if their items move
+      if (item.locked || boundItemIds.length === 0) {
+        return;
+      }
+
+      let updatedItem: WhiteboardItem;
+      if (boundItemIds.some((id) => itemIds.includes(id))) {
+        updatedItem = tool.followBoundItems(item);
+      } else if (itemIds.includes(item.id)) {
+        // An end was moved away from its item if following this item alone would move it back
+        const movedEndItemIds = boundItemIds.filter((boundItemId) => {
+          const end = tool.unbindItems(
+            item,
+            boundItemIds.filter((id) => id !== boundItemId)
+          );
+          return tool.followBoundItems(end) !== end;
+        });
+        updatedItem = tool.unbindItems(item, movedEndItemIds);
+      } else {
+        return;
+      }
+      if (updatedItem === item) {
+        return;
+      }
+      this.items[index] = updatedItem;
+      changes.push({
+        itemId: item.id,
+        before: item,
+        after: updatedItem,
+        index,
+      });
+    });
+    return changes;
+  }
+
+  /**
+   * Detach or delete the connectors attached to removed items, depending on `deleteBoundConnectors`.
+   * Locked connectors are left as they are.
+   *
+   * @param removedItemIds The IDs of the removed items.
+   * @returns The changes made to the connectors.
+   */
+  private releaseBoundConnectors(removedItemIds: string[]): ItemChange[] {
+    const connectors = this.items.filter((item) => {
+      const tool = this.registeredTools.get(item.kind);
+      return (
+        tool &&
+        !item.locked &&
+        tool.getBoundItemIds(item).some((id) => removedItemIds.includes(id))
+      );
+    });
+
+    return connectors.map((connector) => {
+      const index = this.items.indexOf(connector);
+      if (this.deleteBoundConnectors) {
+        this.items.splice(index, 1);
+        return { itemId: connector.id, before: connector, after: null, index };
+      }
+
+      const tool = this.registeredTools.get(connector.kind);
+      const updatedItem = tool
+        ? tool.unbindItems(connector, removedItemIds)
+        : connector;
+      this.items[index] = updatedItem;
+      return {
+        itemId: connector.id,
+        before: connector,
+        after: updatedItem,
+        index,
+      };
+    });
+  }
+
+  /**
+   * Remove removed items from the groups they were in.
+   * Groups that are left with less than two members are removed too, their last member taking their place in their parent group.
+   *
+   * @param removedItemIds The IDs of the removed items.
+   * @returns The changes made to the groups.
+   */
+  private releaseGroupMembers(removedItemIds: string[]): ItemChange[] {
+    let changes: ItemChange[] = [];
+    // The IDs of the removed items, with the IDs of the members taking their place
+    let replacements = new Map<string, string[]>(
+      removedItemIds.map((itemId) => [itemId, []])
+    );
+
+    while (replacements.size > 0) {
+      const removedGroups = new Map<string, string[]>();
+      this.items.filter(isGroupItem).forEach((group) => {
+        if (!group.options.childIds.some((id) => replacements.has(id))) {
+          return;
+        }
+        const childIds = group.options.childIds.flatMap(
+          (childId) => replacements.get(childId) ?? [childId]
+        );
+        const index = this.items.indexOf(group);
+
+        if (childIds.length < 2) {
+          this.items.splice(index, 1);
+          removedGroups.set(group.id, childIds);
+          changes = mergeChange(changes, {
+            itemId: group.id,
+            before: group,
+            after: null,
+            index,
+          });
+          return;
+        }
+
+        const updatedGroup: GroupItem = {
+          ...group,
+          options: { ...group.options, childIds },
+        };
+        this.items[index] = updatedGroup;
+        changes = mergeChange(changes, {
+          itemId: group.id,
+          before: group,
+          after: updatedGroup,
+          index,
+        });
+      });
+      replacements = removedGroups;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Send an `items-updated` event for an updated or removed item.
+   *
+   * @param change The change made to the item.
+   */
+  private dispatchChangeEvent(change: ItemChange): void {
+    const detail = change.after
+      ? { type: "update", itemId: change.itemId, item: change.after }
+      : { type: "remove", itemId: change.itemId };
+    this.dispatchEvent(new CustomEvent("items-updated", { detail }));
+  }
+
+  /**
+   * Apply a recorded entry: the changes made to the layers first, so that restored items find their layer, then the changes made to the items.
+   *
+   * @param entry The entry to apply.
+   * @param revert `true` to restore the `before` state of the changes (undo), `false` to apply the `after` state (redo).
+   */
+  private applyHistoryEntry(entry: HistoryEntry, revert: boolean): void {
+    if (entry.layerChanges.length > 0) {
+      const layers = [...this.layers];
+      const orderedLayerChanges = revert
+        ? [...entry.layerChanges].reverse()
+        : entry.layerChanges;
+      orderedLayerChanges.forEach((change) => {
+        const target = revert ? change.before : change.after;
+        const index = layers.findIndex((layer) => layer.id === change.layerId);
+        if (!target) {
+          if (index !== -1) {
+            layers.splice(index, 1);
+          }
+        } else if (index === -1) {
+          layers.splice(Math.min(change.index, layers.length), 0, target);
+        } else {
+          layers[index] = target;
+        }
+      });
+      this.updateLayers(layers);
+    }
+
+    this.applyHistoryChanges(entry.changes, revert);
+  }
+
+  /**
+   * Apply recorded changes to the items, and send an `items-updated` event for each of them so that peers stay in sync.
+   *
+   * @param changes The changes to apply.
+   * @param revert `true` to restore the `before` state of the changes (undo), `false` to apply the `after` state (redo).
+   */
+  private applyHistoryChanges(changes: ItemChange[], revert: boolean): void {
+    const orderedChanges = revert ? [...changes].reverse() : changes;
+
+    orderedChanges.forEach((change) => {
+      const target = revert ? change.before : change.after;
+      const index = this.items.findIndex((item) => item.id === change.itemId);
+
+      let detail;
+      if (!target) {
+        if (index === -1) {
+          return;
+        }
+        this.items.splice(index, 1);
+        detail = { type: "remove", itemId: change.itemId };
+      } else if (index === -1) {
+        this.items.splice(Math.min(change.index, this.items.length), 0, target);
+        detail = { type: "add", item: target };
+      } else if (change.before !== change.after) {
+        this.items[index] = target;
+        detail = { type: "update", itemId: change.itemId, item: target };
+      } else {
+        // The item was only moved in the drawing order
+        return;
+      }
+
+      this.dispatchEvent(new CustomEvent("items-updated", { detail }));
+    });
+
+    const reorderChanges = changes.filter(
+      (change) => change.newIndex !== undefined
+    );
+    if (reorderChanges.length > 0) {
+      this.items = this.moveItemsToIndexes(
+        new Map(
+          reorderChanges.map((change) => [
+            change.itemId,
+            revert ? change.index : (change.newIndex as number),
+          ])
+        )
+      );
+      this.dispatchReorderEvent();
+    }
+
+    this.selectedItemIds = this.selectedItemIds.filter((itemId) =>
+      this.items.some((item) => item.id === itemId)
+    );
+
+    this.draw();
+    this.requestUpdate();
+  }
+
+  /**
+   * Start a history batch: all the changes made until `endHistoryBatch` is called are undone in one step.
+   * This is useful for tools that make several changes during one interaction.
+   */
+  public startHistoryBatch(): void {
+    this.history.startBatch();
+  }
+
+  /**
+   * End the current history batch.
+   */
+  public endHistoryBatch(): void {
+    this.history.endBatch();
+  }
+
+  /**
+   * Undo the last change made by the user.
+   */
+  public undo(): void {
+    const entry = this.history.undo();
+    if (!entry) {
+      return;
+    }
+    this.applyHistoryEntry(entry, true);
+  }
+
+  /**
+   * Redo the last undone change.
+   */
+  public redo(): void {
+    const entry = this.history.redo();
+    if (!entry) {
+      return;
+    }
+    this.applyHistoryEntry(entry, false);
+  }
+
+  /**
+   * Check if there is a change that can be undone.
+   *
+   * @returns `true` if `undo` can be called.
+   */
+  public canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Check if there is an undone change that can be redone.
+   *
+   * @returns `true` if `redo` can be called.
+   */
+  public canRedo(): boolean {
+    return this.history.canRedo();
+  }
 }
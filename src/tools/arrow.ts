@@ -0,0 +1,23 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+
+import { getIconSvg } from "../lib/icons";
+import { Arrowhead } from "../lib/arrowheads";
+import { SimpleWhiteboardToolLine } from "./line";
+
+/**
+ * Arrows are lines that have an arrowhead at their end by default.
+ */
+@customElement("simple-whiteboard--tool-arrow")
+export class SimpleWhiteboardToolArrow extends SimpleWhiteboardToolLine {
+  protected override endArrowhead: Arrowhead | null = Arrowhead.ARROW;
+
+  public override getToolIcon() {
+    return html`${unsafeHTML(getIconSvg("arrow-up-right"))}`;
+  }
+
+  public override getToolName() {
+    return "arrow";
+  }
+}
@@ -10,11 +10,17 @@ import SimpleWhiteboardTool, {
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
+import { shrinkRect } from "../lib/geometry";
+import { getSvgFromDrawable, roughGenerator } from "../lib/svg";
 
 interface CircleItem extends WhiteboardItem {
+  // Center of the ellipse
   x: number;
   y: number;
-  diameter: number;
+  width: number;
+  height: number;
+  // Items created before ellipses were supported only have a diameter
+  diameter?: number;
   options: RoughCanvasOptions;
 }
 
@@ -32,6 +38,19 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
     return "circle";
   }
 
+  /**
+   * Get the size of an ellipse, supporting the circles that only have a diameter.
+   *
+   * @param item The ellipse.
+   * @returns The width and height of the ellipse.
+   */
+  private getSize(item: CircleItem): { width: number; height: number } {
+    if (item.width === undefined || item.height === undefined) {
+      return { width: item.diameter || 0, height: item.diameter || 0 };
+    }
+    return { width: item.width, height: item.height };
+  }
+
   public override drawItem(
     rc: RoughCanvas,
     _context: CanvasRenderingContext2D,
@@ -45,20 +64,60 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
       item.x,
       item.y
     );
-    rc.circle(circleX, circleY, item.diameter, item.options);
+    const zoom = simpleWhiteboard.getZoom();
+    const { width, height } = this.getSize(item);
+    rc.ellipse(circleX, circleY, width * zoom, height * zoom, {
+      ...item.options,
+      strokeWidth: (item.options.strokeWidth || 1) * zoom,
+    });
   }
 
   public override getBoundingRect(item: CircleItem): BoundingRect | null {
     const strokeWidth = item.options.strokeWidth || 1;
     const halfStrokeWidth = strokeWidth / 2;
+    const { width, height } = this.getSize(item);
     return {
-      x: item.x - item.diameter / 2 - halfStrokeWidth,
-      y: item.y - item.diameter / 2 - halfStrokeWidth,
-      width: item.diameter + strokeWidth,
-      height: item.diameter + strokeWidth,
+      x: item.x - width / 2 - halfStrokeWidth,
+      y: item.y - height / 2 - halfStrokeWidth,
+      width: width + strokeWidth,
+      height: height + strokeWidth,
     };
   }
 
+  public override hitTest(
+    item: CircleItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const margin = (item.options.strokeWidth || 1) / 2 + tolerance;
+    const { width, height } = this.getSize(item);
+    const radiusX = width / 2;
+    const radiusY = height / 2;
+
+    // Check if the point is inside the ellipse with the given radiuses
+    const isInEllipse = (rx: number, ry: number) =>
+      rx > 0 &&
+      ry > 0 &&
+      ((x - item.x) / rx) ** 2 + ((y - item.y) / ry) ** 2 <= 1;
+
+    // A filled ellipse can be hit anywhere, otherwise only its outline can be hit
+    if (!isInEllipse(radiusX + margin, radiusY + margin)) {
+      return false;
+    }
+    if (item.options.fill && item.options.fill !== "transparent") {
+      return true;
+    }
+    return !isInEllipse(radiusX - margin, radiusY - margin);
+  }
+
+  public override toSvg(item: CircleItem): string {
+    const { width, height } = this.getSize(item);
+    return getSvgFromDrawable(
+      roughGenerator.ellipse(item.x, item.y, width, height, item.options)
+    );
+  }
+
   public override handleDrawingStart(x: number, y: number): void {
     const simpleWhiteboard = super.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -66,9 +125,8 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
     }
     const itemId = super.generateId();
 
-    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
-      x,
-      y
+    const { x: itemX, y: itemY } = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
     );
 
     const item: CircleItem = {
@@ -76,7 +134,8 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
       id: itemId,
       x: itemX,
       y: itemY,
-      diameter: 0,
+      width: 0,
+      height: 0,
       options: {
         stroke: this.stroke,
         strokeWidth: this.strokeWidth,
@@ -105,16 +164,19 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
     const circleItem = currentDrawing as CircleItem;
     const { x: x1, y: y1 } = circleItem;
 
-    const { x: canvasX, y: canvasY } = simpleWhiteboard.getCanvasCoords();
-
-    const x2 = x - canvasX;
-    const y2 = y - canvasY;
+    const { x: x2, y: y2 } = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
+    );
     const dx = x2 - x1;
     const dy = y2 - y1;
 
+    // The ellipse is drawn from its center ; holding Shift draws a circle
+    const { shiftKey } = simpleWhiteboard.getModifierKeys();
+    const diameter = Math.sqrt(dx * dx + dy * dy) * 2;
     simpleWhiteboard.setCurrentDrawing({
       ...circleItem,
-      diameter: Math.sqrt(dx * dx + dy * dy) * 2,
+      width: shiftKey ? diameter : Math.abs(dx) * 2,
+      height: shiftKey ? diameter : Math.abs(dy) * 2,
     } as CircleItem);
   }
 
@@ -154,6 +216,22 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
     };
   }
 
+  public override resizeItem(
+    item: CircleItem,
+    boundingRect: BoundingRect
+  ): CircleItem {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const { x, y, width, height } = shrinkRect(boundingRect, strokeWidth / 2);
+    const { diameter: _diameter, ...ellipse } = item;
+    return {
+      ...ellipse,
+      x: x + width / 2,
+      y: y + height / 2,
+      width,
+      height,
+    };
+  }
+
   public override onToolSelected(): void {
     const simpleWhiteboard = this.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -282,6 +360,7 @@ export class SimpleWhiteboardToolCircle extends SimpleWhiteboardTool {
           );
         }
       )}
+      ${this.renderOrderButtons([item.id])}
       <button
         class="width-100-percent"
         @click=${() => {
@@ -6,10 +6,17 @@ import "./move";
 import "./pointer";
 import "./rect";
 import "./circle";
+import "./polygon";
+import "./shape";
 import "./line";
+import "./arrow";
 import "./pen";
+import "./eraser";
 import "./text";
+import "./sticky";
 import "./picture";
+import "./group";
+import "./export";
 import "./clear";
 
 @customElement("simple-whiteboard--tool-defaults")
@@ -29,12 +36,33 @@ export class SimpleWhiteboardToolDefaults extends LitElement {
       <simple-whiteboard--tool-circle
         slot="tools"
       ></simple-whiteboard--tool-circle>
+      <simple-whiteboard--tool-polygon
+        slot="tools"
+      ></simple-whiteboard--tool-polygon>
+      <simple-whiteboard--tool-shape
+        slot="tools"
+      ></simple-whiteboard--tool-shape>
       <simple-whiteboard--tool-line slot="tools"></simple-whiteboard--tool-line>
+      <simple-whiteboard--tool-arrow
+        slot="tools"
+      ></simple-whiteboard--tool-arrow>
       <simple-whiteboard--tool-pen slot="tools"></simple-whiteboard--tool-pen>
+      <simple-whiteboard--tool-eraser
+        slot="tools"
+      ></simple-whiteboard--tool-eraser>
       <simple-whiteboard--tool-text slot="tools"></simple-whiteboard--tool-text>
+      <simple-whiteboard--tool-sticky
+        slot="tools"
+      ></simple-whiteboard--tool-sticky>
       <simple-whiteboard--tool-picture
         slot="tools"
       ></simple-whiteboard--tool-picture>
+      <simple-whiteboard--tool-group
+        slot="tools"
+      ></simple-whiteboard--tool-group>
+      <simple-whiteboard--tool-export
+        slot="tools"
+      ></simple-whiteboard--tool-export>
       <simple-whiteboard--tool-clear
         slot="tools"
       ></simple-whiteboard--tool-clear>
@@ -0,0 +1,262 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+
+import SimpleWhiteboardTool, {
+  RoughCanvas,
+  WhiteboardItem,
+} from "../lib/SimpleWhiteboardTool";
+import { getIconSvg } from "../lib/icons";
+import { Point, sampleSegment } from "../lib/geometry";
+
+enum EraserMode {
+  // Erase every item touched by the eraser
+  ITEM = "item",
+  // Only erase the touched parts of pen strokes
+  PARTIAL = "partial",
+}
+
+interface EraserItem extends WhiteboardItem {
+  x: number;
+  y: number;
+  options: {
+    size: number;
+    mode: EraserMode;
+  };
+}
+
+@customElement("simple-whiteboard--tool-eraser")
+export class SimpleWhiteboardToolEraser extends SimpleWhiteboardTool {
+  private size = 16;
+  private mode = EraserMode.ITEM;
+  // Whether the history batch of the current stroke is open
+  private isBatchOpen = false;
+
+  public override getToolIcon() {
+    return html`${unsafeHTML(getIconSvg("delete"))}`;
+  }
+
+  public override getToolName() {
+    return "eraser";
+  }
+
+  public override drawItem(
+    _rc: RoughCanvas,
+    context: CanvasRenderingContext2D,
+    item: EraserItem
+  ): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const { x, y } = simpleWhiteboard.coordsToCanvasCoords(item.x, item.y);
+    const radius = (item.options.size / 2) * simpleWhiteboard.getZoom();
+
+    context.save();
+    context.strokeStyle = "#888888";
+    context.fillStyle = "rgba(136, 136, 136, 0.2)";
+    context.lineWidth = 1;
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+    context.restore();
+  }
+
+  /**
+   * Erase the items touched by the eraser along a segment.
+   *
+   * @param from The start of the segment, in world coordinates.
+   * @param to The end of the segment, in world coordinates.
+   * @param options The options of the eraser.
+   */
+  private erase(from: Point, to: Point, options: EraserItem["options"]): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const radius = options.size / 2;
+    const points = sampleSegment(from, to, radius / 2);
+    const hitItems = simpleWhiteboard
+      .getItems()
+      .filter(
+        (item) =>
+          !item.locked &&
+          simpleWhiteboard.isItemOnEditableLayer(item) &&
+          points.some((point) =>
+            simpleWhiteboard.hitTestItem(item, point.x, point.y, radius)
+          )
+      );
+
+    const removedItemIds: string[] = [];
+    hitItems.forEach((item) => {
+      const tool = simpleWhiteboard.getToolInstance(item.kind);
+      // Parts of rotated items would move, as they rotate around their own center
+      const parts =
+        tool && options.mode === EraserMode.PARTIAL && !item.rotation
+          ? tool.partialErase(item, points, radius)
+          : null;
+
+      if (!parts || parts.length === 0) {
+        removedItemIds.push(item.id);
+        return;
+      }
+
+      const [firstPart, ...otherParts] = parts;
+      simpleWhiteboard.updateItemById(item.id, firstPart, true);
+      otherParts.forEach((part) => simpleWhiteboard.addItem(part, true));
+    });
+
+    simpleWhiteboard.removeItemsByIds(removedItemIds, true);
+  }
+
+  public override handleDrawingStart(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const itemId = super.generateId();
+
+    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
+      x,
+      y
+    );
+
+    const item: EraserItem = {
+      kind: this.getToolName(),
+      id: itemId,
+      x: itemX,
+      y: itemY,
+      options: {
+        size: this.size,
+        mode: this.mode,
+      },
+    };
+
+    // Everything erased with one stroke is undone in one step
+    if (!this.isBatchOpen) {
+      simpleWhiteboard.startHistoryBatch();
+      this.isBatchOpen = true;
+    }
+    simpleWhiteboard.setCurrentDrawing(item);
+    this.erase({ x: itemX, y: itemY }, { x: itemX, y: itemY }, item.options);
+  }
+
+  public override handleDrawingMove(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (!currentDrawing) {
+      return;
+    }
+
+    if (currentDrawing.kind !== this.getToolName()) {
+      return;
+    }
+
+    const eraserItem = currentDrawing as EraserItem;
+    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
+      x,
+      y
+    );
+
+    this.erase(
+      { x: eraserItem.x, y: eraserItem.y },
+      { x: itemX, y: itemY },
+      eraserItem.options
+    );
+
+    simpleWhiteboard.setCurrentDrawing({
+      ...eraserItem,
+      x: itemX,
+      y: itemY,
+    } as EraserItem);
+  }
+
+  public override handleDrawingEnd(): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    this.endStroke();
+
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (!currentDrawing) {
+      return;
+    }
+
+    if (currentDrawing.kind !== this.getToolName()) {
+      return;
+    }
+
+    simpleWhiteboard.setCurrentDrawing(null);
+  }
+
+  public override handleDrawingCancel(): void {
+    this.endStroke();
+  }
+
+  /**
+   * Close the history batch of the current stroke, if it is still open.
+   */
+  private endStroke(): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard || !this.isBatchOpen) {
+      return;
+    }
+    this.isBatchOpen = false;
+    simpleWhiteboard.endHistoryBatch();
+  }
+
+  public override onToolSelected(): void {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    simpleWhiteboard.setSelectedItemId(null);
+  }
+
+  public override renderToolOptions() {
+    return html`
+      <p>Size:</p>
+      <input
+        class="width-100-percent"
+        type="range"
+        min="4"
+        max="64"
+        step="4"
+        .value=${this.size}
+        @input=${(e: Event) => {
+          const target = e.target as HTMLInputElement;
+          this.size = parseInt(target.value, 10);
+        }}
+      />
+      <p>Mode:</p>
+      <select
+        class="width-100-percent"
+        @change=${(e: Event) => {
+          const target = e.target as HTMLSelectElement;
+          this.mode = target.value as EraserMode;
+        }}
+      >
+        <option
+          value=${EraserMode.ITEM}
+          ?selected=${this.mode === EraserMode.ITEM}
+        >
+          Erase whole items
+        </option>
+        <option
+          value=${EraserMode.PARTIAL}
+          ?selected=${this.mode === EraserMode.PARTIAL}
+        >
+          Erase parts of pen strokes
+        </option>
+      </select>
+    `;
+  }
+}
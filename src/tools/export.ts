@@ -0,0 +1,66 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+
+import SimpleWhiteboardTool from "../lib/SimpleWhiteboardTool";
+import { getIconSvg } from "../lib/icons";
+
+@customElement("simple-whiteboard--tool-export")
+export class SimpleWhiteboardToolExport extends SimpleWhiteboardTool {
+  public override getToolIcon() {
+    return html`${unsafeHTML(getIconSvg("download"))}`;
+  }
+
+  public override getToolName() {
+    return "export";
+  }
+
+  /**
+   * Export the whiteboard as a PNG image.
+   * An `export-image` event is sent first ; the image is downloaded unless the event is canceled.
+   */
+  private async exportImage(): Promise<void> {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const blob = await simpleWhiteboard.exportImage({
+      type: "image/png",
+      scale: window.devicePixelRatio || 1,
+    });
+
+    const exportImageEvent = new CustomEvent("export-image", {
+      detail: {
+        blob,
+      },
+      cancelable: true,
+    });
+    if (!simpleWhiteboard.dispatchEvent(exportImageEvent)) {
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "whiteboard.png";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  public override onToolSelected(): void {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    this.exportImage().catch((error) => {
+      console.error("Failed to export the image", error);
+    });
+
+    // Select the previous tool
+    const previousTool = simpleWhiteboard.getPreviousTool();
+    if (previousTool && previousTool !== this.getToolName()) {
+      simpleWhiteboard.setCurrentTool(previousTool, false);
+    }
+  }
+}
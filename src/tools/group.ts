@@ -0,0 +1,102 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+
+import SimpleWhiteboardTool, {
+  BoundingRect,
+  RoughCanvas,
+  WhiteboardItem,
+} from "../lib/SimpleWhiteboardTool";
+import { getRectsBoundingRect } from "../lib/geometry";
+import { GROUP_KIND, GroupItem } from "../lib/groups";
+
+@customElement("simple-whiteboard--tool-group")
+export class SimpleWhiteboardToolGroup extends SimpleWhiteboardTool {
+  public override getToolName() {
+    return GROUP_KIND;
+  }
+
+  public override drawItem(
+    _rc: RoughCanvas,
+    _context: CanvasRenderingContext2D,
+    _item: GroupItem
+  ): void {
+    // The members of the group are drawn on their own
+  }
+
+  public override getBoundingRect(item: GroupItem): BoundingRect | null {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return null;
+    }
+
+    return getRectsBoundingRect(
+      item.options.childIds
+        .map((childId) => simpleWhiteboard.getItemById(childId))
+        .filter((child): child is WhiteboardItem => !!child)
+        .map((child) => simpleWhiteboard.getBoundingRect(child))
+        .filter((rect): rect is BoundingRect => !!rect)
+    );
+  }
+
+  public override hitTest(
+    _item: GroupItem,
+    _x: number,
+    _y: number,
+    _tolerance: number
+  ): boolean {
+    // A group is hit through its members, so that the gaps between them stay empty
+    return false;
+  }
+
+  public override getCoordsItem(item: GroupItem): { x: number; y: number } {
+    const boundingRect = this.getBoundingRect(item);
+    return boundingRect
+      ? { x: boundingRect.x, y: boundingRect.y }
+      : { x: 0, y: 0 };
+  }
+
+  public override setCoordsItem(
+    item: GroupItem,
+    _x: number,
+    _y: number
+  ): GroupItem {
+    // A group follows its members, that are moved by the whiteboard
+    return item;
+  }
+
+  public override isTransformable(_item: GroupItem): boolean {
+    return false;
+  }
+
+  public override renderToolOptions(item: GroupItem | null) {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard || !item) {
+      return null;
+    }
+
+    return html`
+      <p>Group of ${item.options.childIds.length} items</p>
+      <p>Double-click on a member to select it.</p>
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.ungroupItems([item.id]);
+        }}
+      >
+        Ungroup
+      </button>
+      ${this.renderOrderButtons([item.id])}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.removeItemsByIds(
+            simpleWhiteboard.getItemIdsWithGroupMembers([item.id]),
+            true
+          );
+        }}
+      >
+        Delete
+      </button>
+    `;
+  }
+}
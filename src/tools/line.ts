@@ -10,12 +10,36 @@ import SimpleWhiteboardTool, {
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
+import {
+  Point,
+  getDistanceToSegment,
+  getPointsBoundingRect,
+  getRectsBoundingRect,
+  mapPointBetweenRects,
+} from "../lib/geometry";
+import { getSvgFromDrawable, roughGenerator } from "../lib/svg";
+import {
+  ARROWHEAD_LABELS,
+  Arrowhead,
+  ArrowheadShape,
+  generateArrowhead,
+  getArrowheadBoundingRect,
+  getArrowheadShape,
+  getArrowheadSize,
+  hitTestArrowhead,
+} from "../lib/arrowheads";
+import { BINDING_TOLERANCE, ConnectorBinding } from "../lib/connectors";
 
-interface LineItem extends WhiteboardItem {
+export interface LineItem extends WhiteboardItem {
   x1: number;
   y1: number;
   x2: number;
   y2: number;
+  startArrowhead?: Arrowhead | null;
+  endArrowhead?: Arrowhead | null;
+  // Items the ends of the line are attached to
+  startBinding?: ConnectorBinding | null;
+  endBinding?: ConnectorBinding | null;
   options: RoughCanvasOptions;
 }
 
@@ -23,6 +47,8 @@ interface LineItem extends WhiteboardItem {
 export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
   private stroke = "#000000";
   private strokeWidth = 1;
+  protected startArrowhead: Arrowhead | null = null;
+  protected endArrowhead: Arrowhead | null = null;
 
   public override getToolIcon() {
     return html`${unsafeHTML(getIconSvg("minus"))}`;
@@ -49,18 +75,142 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
       item.x2,
       item.y2
     );
-    rc.line(x1, y1, x2, y2, item.options);
+    const zoom = simpleWhiteboard.getZoom();
+    const options = {
+      ...item.options,
+      strokeWidth: (item.options.strokeWidth || 1) * zoom,
+    };
+    rc.line(x1, y1, x2, y2, options);
+    this.getArrowheadShapes(item, { x: x1, y: y1 }, { x: x2, y: y2 }, zoom)
+      .map((shape) => generateArrowhead(rc.generator, shape, options))
+      .forEach((drawable) => rc.draw(drawable));
+  }
+
+  /**
+   * Get the geometry of the arrowheads of a line.
+   *
+   * @param item The line item.
+   * @param start The start of the line.
+   * @param end The end of the line.
+   * @param scale The scale of the arrowheads, to draw them on a zoomed canvas.
+   * @returns The geometry of each arrowhead of the line.
+   */
+  private getArrowheadShapes(
+    item: LineItem,
+    start: Point = { x: item.x1, y: item.y1 },
+    end: Point = { x: item.x2, y: item.y2 },
+    scale = 1
+  ): ArrowheadShape[] {
+    const size = getArrowheadSize(item.options.strokeWidth || 1) * scale;
+    const shapes: ArrowheadShape[] = [];
+    if (item.startArrowhead) {
+      shapes.push(getArrowheadShape(item.startArrowhead, start, end, size));
+    }
+    if (item.endArrowhead) {
+      shapes.push(getArrowheadShape(item.endArrowhead, end, start, size));
+    }
+    return shapes;
   }
 
   public override getBoundingRect(item: LineItem): BoundingRect | null {
     const strokeWidth = item.options.strokeWidth || 1;
     const halfStrokeWidth = strokeWidth / 2;
-    return {
+    const lineRect = {
       x: Math.min(item.x1, item.x2) - halfStrokeWidth,
       y: Math.min(item.y1, item.y2) - halfStrokeWidth,
       width: Math.abs(item.x2 - item.x1) + strokeWidth,
       height: Math.abs(item.y2 - item.y1) + strokeWidth,
     };
+    return getRectsBoundingRect([
+      lineRect,
+      ...this.getArrowheadShapes(item).map((shape) =>
+        getArrowheadBoundingRect(shape, strokeWidth)
+      ),
+    ]);
+  }
+
+  public override hitTest(
+    item: LineItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const halfStrokeWidth = (item.options.strokeWidth || 1) / 2;
+    const distance = getDistanceToSegment(
+      { x, y },
+      { x: item.x1, y: item.y1 },
+      { x: item.x2, y: item.y2 }
+    );
+    if (distance <= halfStrokeWidth + tolerance) {
+      return true;
+    }
+    return this.getArrowheadShapes(item).some((shape) =>
+      hitTestArrowhead(shape, { x, y }, halfStrokeWidth + tolerance)
+    );
+  }
+
+  public override toSvg(item: LineItem): string {
+    return [
+      roughGenerator.line(item.x1, item.y1, item.x2, item.y2, item.options),
+      ...this.getArrowheadShapes(item).map((shape) =>
+        generateArrowhead(roughGenerator, shape, item.options)
+      ),
+    ]
+      .map((drawable) => getSvgFromDrawable(drawable))
+      .join("");
+  }
+
+  public override isBindable(_item: LineItem): boolean {
+    return false;
+  }
+
+  public override getBoundItemIds(item: LineItem): string[] {
+    return [item.startBinding, item.endBinding]
+      .filter((binding): binding is ConnectorBinding => !!binding)
+      .map((binding) => binding.itemId);
+  }
+
+  public override followBoundItems(item: LineItem): LineItem {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return item;
+    }
+
+    const start = item.startBinding
+      ? simpleWhiteboard.getBindingPosition(item.startBinding)
+      : null;
+    const end = item.endBinding
+      ? simpleWhiteboard.getBindingPosition(item.endBinding)
+      : null;
+    const x1 = start ? start.x : item.x1;
+    const y1 = start ? start.y : item.y1;
+    const x2 = end ? end.x : item.x2;
+    const y2 = end ? end.y : item.y2;
+    if (x1 === item.x1 && y1 === item.y1 && x2 === item.x2 && y2 === item.y2) {
+      return item;
+    }
+
+    return {
+      ...item,
+      x1,
+      y1,
+      x2,
+      y2,
+    };
+  }
+
+  public override unbindItems(item: LineItem, itemIds: string[]): LineItem {
+    const isBoundTo = (binding?: ConnectorBinding | null) =>
+      !!binding && itemIds.includes(binding.itemId);
+    if (!isBoundTo(item.startBinding) && !isBoundTo(item.endBinding)) {
+      return item;
+    }
+
+    return {
+      ...item,
+      startBinding: isBoundTo(item.startBinding) ? null : item.startBinding,
+      endBinding: isBoundTo(item.endBinding) ? null : item.endBinding,
+    };
   }
 
   public override handleDrawingStart(x: number, y: number): void {
@@ -75,13 +225,27 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
       y
     );
 
+    // Attach the start of the line to the item under the pointer, or else snap it to the other items or to the grid
+    const startBinding = simpleWhiteboard.findConnectorBinding(
+      itemX,
+      itemY,
+      BINDING_TOLERANCE / simpleWhiteboard.getZoom()
+    );
+    const { x: x1, y: y1 } =
+      (startBinding && simpleWhiteboard.getBindingPosition(startBinding)) ||
+      simpleWhiteboard.snapPointToItems({ x: itemX, y: itemY });
+
     const item: LineItem = {
       kind: this.getToolName(),
       id: itemId,
-      x1: itemX,
-      y1: itemY,
-      x2: itemX,
-      y2: itemY,
+      x1,
+      y1,
+      x2: x1,
+      y2: y1,
+      startArrowhead: this.startArrowhead,
+      endArrowhead: this.endArrowhead,
+      startBinding,
+      endBinding: null,
       options: {
         stroke: this.stroke,
         strokeWidth: this.strokeWidth,
@@ -108,12 +272,32 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
 
     const lineItem = currentDrawing as LineItem;
 
-    const { x: canvasX, y: canvasY } = simpleWhiteboard.getCanvasCoords();
+    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
+      x,
+      y
+    );
+
+    // Attach the end of the line to the item under the pointer if it is not the one the start is attached to, or else snap it to the other items or to the grid
+    const endBinding = simpleWhiteboard.findConnectorBinding(
+      itemX,
+      itemY,
+      BINDING_TOLERANCE / simpleWhiteboard.getZoom(),
+      lineItem.startBinding ? [lineItem.startBinding.itemId] : []
+    );
+    const bindingPosition =
+      endBinding && simpleWhiteboard.getBindingPosition(endBinding);
+    if (bindingPosition) {
+      simpleWhiteboard.clearGuides();
+    }
+    const { x: x2, y: y2 } =
+      bindingPosition ||
+      simpleWhiteboard.snapPointToItems({ x: itemX, y: itemY });
 
     simpleWhiteboard.setCurrentDrawing({
       ...lineItem,
-      x2: x - canvasX,
-      y2: y - canvasY,
+      x2,
+      y2,
+      endBinding,
     } as LineItem);
   }
 
@@ -165,6 +349,54 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
     };
   }
 
+  public override resizeItem(
+    item: LineItem,
+    boundingRect: BoundingRect
+  ): LineItem {
+    const currentBoundingRect = this.getBoundingRect(item);
+    if (!currentBoundingRect) {
+      return item;
+    }
+
+    // Map the endpoints through their own rect, the stroke and the arrowheads keeping their margins around it
+    const from = getPointsBoundingRect([
+      { x: item.x1, y: item.y1 },
+      { x: item.x2, y: item.y2 },
+    ]);
+    const left = from.x - currentBoundingRect.x;
+    const top = from.y - currentBoundingRect.y;
+    const right =
+      currentBoundingRect.x + currentBoundingRect.width - (from.x + from.width);
+    const bottom =
+      currentBoundingRect.y +
+      currentBoundingRect.height -
+      (from.y + from.height);
+    const to = {
+      x: boundingRect.x + left,
+      y: boundingRect.y + top,
+      width: Math.max(0, boundingRect.width - left - right),
+      height: Math.max(0, boundingRect.height - top - bottom),
+    };
+
+    const { x: x1, y: y1 } = mapPointBetweenRects(
+      { x: item.x1, y: item.y1 },
+      from,
+      to
+    );
+    const { x: x2, y: y2 } = mapPointBetweenRects(
+      { x: item.x2, y: item.y2 },
+      from,
+      to
+    );
+    return {
+      ...item,
+      x1,
+      y1,
+      x2,
+      y2,
+    };
+  }
+
   generateColorSelect(
     colors: string[],
     currentColor: string,
@@ -181,6 +413,30 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
     });
   }
 
+  generateArrowheadSelect(
+    currentArrowhead: Arrowhead | null,
+    changeCallback: (arrowhead: Arrowhead | null) => void
+  ) {
+    return html`<select
+      class="width-100-percent"
+      @change=${(e: Event) => {
+        const target = e.target as HTMLSelectElement;
+        changeCallback((target.value as Arrowhead) || null);
+      }}
+    >
+      <option value="" ?selected=${!currentArrowhead}>None</option>
+      ${(Object.keys(ARROWHEAD_LABELS) as Arrowhead[]).map(
+        (arrowhead) =>
+          html`<option
+            value=${arrowhead}
+            ?selected=${currentArrowhead === arrowhead}
+          >
+            ${ARROWHEAD_LABELS[arrowhead]}
+          </option>`
+      )}
+    </select>`;
+  }
+
   public override renderToolOptions(item: LineItem | null) {
     const simpleWhiteboard = super.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -211,6 +467,14 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
             this.stroke = color;
           }
         )}
+        <p>Start arrowhead:</p>
+        ${this.generateArrowheadSelect(this.startArrowhead, (arrowhead) => {
+          this.startArrowhead = arrowhead;
+        })}
+        <p>End arrowhead:</p>
+        ${this.generateArrowheadSelect(this.endArrowhead, (arrowhead) => {
+          this.endArrowhead = arrowhead;
+        })}
       `;
     }
 
@@ -258,6 +522,40 @@ export class SimpleWhiteboardToolLine extends SimpleWhiteboardTool {
           );
         }
       )}
+      <p>Start arrowhead:</p>
+      ${this.generateArrowheadSelect(
+        item.startArrowhead || null,
+        (arrowhead) => {
+          simpleWhiteboard.updateItemById(
+            item.id,
+            { ...item, startArrowhead: arrowhead } as LineItem,
+            true
+          );
+        }
+      )}
+      <p>End arrowhead:</p>
+      ${this.generateArrowheadSelect(item.endArrowhead || null, (arrowhead) => {
+        simpleWhiteboard.updateItemById(
+          item.id,
+          { ...item, endArrowhead: arrowhead } as LineItem,
+          true
+        );
+      })}
+      ${this.getBoundItemIds(item).length > 0
+        ? html`<button
+            class="width-100-percent"
+            @click=${() => {
+              simpleWhiteboard.updateItemById(
+                item.id,
+                this.unbindItems(item, this.getBoundItemIds(item)),
+                true
+              );
+            }}
+          >
+            Detach
+          </button>`
+        : null}
+      ${this.renderOrderButtons([item.id])}
       <button
         class="width-100-percent"
         @click=${() => {
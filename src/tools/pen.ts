@@ -9,7 +9,15 @@ import SimpleWhiteboardTool, {
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
-import { getSvgPathFromStroke } from "../lib/svg";
+import { escapeXml, getSvgPathFromStroke } from "../lib/svg";
+import {
+  Point,
+  getDistance,
+  getDistanceToPolyline,
+  getSegmentPartInCircle,
+  mapPointBetweenRects,
+  shrinkRect,
+} from "../lib/geometry";
 import getStroke from "perfect-freehand";
 
 interface PenItem extends WhiteboardItem {
@@ -54,7 +62,7 @@ export class SimpleWhiteboardToolPen extends SimpleWhiteboardTool {
         return { x, y };
       }),
       {
-        size: item.options.size || 8,
+        size: (item.options.size || 8) * simpleWhiteboard.getZoom(),
         smoothing: item.options.smoothing || 0.5,
         thinning: item.options.thinning || 0.5,
         streamline: item.options.streamline || 0.5,
@@ -86,6 +94,99 @@ export class SimpleWhiteboardToolPen extends SimpleWhiteboardTool {
     };
   }
 
+  public override hitTest(
+    item: PenItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const halfSize = (item.options.size || 1) / 2;
+    return getDistanceToPolyline({ x, y }, item.path) <= halfSize + tolerance;
+  }
+
+  public override partialErase(
+    item: PenItem,
+    points: { x: number; y: number }[],
+    radius: number
+  ): PenItem[] {
+    const halfSize = (item.options.size || 1) / 2;
+    // A single point is erased as a whole
+    if (item.path.length === 1) {
+      return points.some(
+        (point) => getDistance(item.path[0], point) <= radius + halfSize
+      )
+        ? []
+        : [item];
+    }
+
+    const getPoint = (a: Point, b: Point, t: number): Point =>
+      t === 0
+        ? a
+        : t === 1
+        ? b
+        : { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+
+    // Cut each segment of the path where the eraser went through it
+    const paths: Point[][] = [];
+    let currentPath: Point[] = [];
+    const cut = () => {
+      if (currentPath.length > 0) {
+        paths.push(currentPath);
+      }
+      currentPath = [];
+    };
+    for (let i = 0; i < item.path.length - 1; i++) {
+      const a = item.path[i];
+      const b = item.path[i + 1];
+      const keepPart = (partStart: number, partEnd: number) => {
+        if (partStart > 0) {
+          cut();
+        }
+        if (partStart > 0 || currentPath.length === 0) {
+          currentPath.push(getPoint(a, b, partStart));
+        }
+        currentPath.push(getPoint(a, b, partEnd));
+      };
+
+      let start = 0;
+      points
+        .map((point) => getSegmentPartInCircle(a, b, point, radius + halfSize))
+        .filter((part): part is [number, number] => !!part)
+        .sort((part1, part2) => part1[0] - part2[0])
+        .forEach(([erasedStart, erasedEnd]) => {
+          if (erasedStart > start) {
+            keepPart(start, erasedStart);
+          }
+          start = Math.max(start, erasedEnd);
+        });
+      if (start < 1) {
+        keepPart(start, 1);
+      } else {
+        cut();
+      }
+    }
+    cut();
+
+    // The first part keeps the ID of the item
+    return paths.map((path, i) => ({
+      ...item,
+      id: i === 0 ? item.id : this.generateId(),
+      path,
+    }));
+  }
+
+  public override toSvg(item: PenItem): string {
+    const outlinePoints = getStroke(item.path, {
+      size: item.options.size || 8,
+      smoothing: item.options.smoothing || 0.5,
+      thinning: item.options.thinning || 0.5,
+      streamline: item.options.streamline || 0.5,
+    });
+    const pathData = getSvgPathFromStroke(outlinePoints);
+    const color = escapeXml(item.options.color || "#000000");
+    return `<path d="${pathData}" fill="${color}"/>`;
+  }
+
   public override handleDrawingStart(x: number, y: number): void {
     const simpleWhiteboard = super.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -175,6 +276,24 @@ export class SimpleWhiteboardToolPen extends SimpleWhiteboardTool {
     };
   }
 
+  public override resizeItem(
+    item: PenItem,
+    boundingRect: BoundingRect
+  ): PenItem {
+    const currentBoundingRect = this.getBoundingRect(item);
+    if (!currentBoundingRect) {
+      return item;
+    }
+    const halfStrokeWidth = (item.options.size || 1) / 2;
+    const from = shrinkRect(currentBoundingRect, halfStrokeWidth);
+    const to = shrinkRect(boundingRect, halfStrokeWidth);
+
+    return {
+      ...item,
+      path: item.path.map((p) => mapPointBetweenRects(p, from, to)),
+    };
+  }
+
   public override onToolSelected(): void {
     const simpleWhiteboard = this.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -278,6 +397,7 @@ export class SimpleWhiteboardToolPen extends SimpleWhiteboardTool {
           );
         }
       )}
+      ${this.renderOrderButtons([item.id])}
       <button
         class="width-100-percent"
         @click=${() => {
@@ -8,6 +8,8 @@ import SimpleWhiteboardTool, {
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
+import { escapeXml } from "../lib/svg";
+import { isPointInRect } from "../lib/geometry";
 
 interface PictureItem extends WhiteboardItem {
   x: number;
@@ -20,6 +22,8 @@ interface PictureItem extends WhiteboardItem {
 @customElement("simple-whiteboard--tool-picture")
 export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
   private pictureCache: Map<string, HTMLImageElement> = new Map();
+  // Pixels of the cached pictures, or `null` if they can't be read (cross-origin pictures)
+  private pixelsCache: Map<string, ImageData | null> = new Map();
 
   public override getToolIcon() {
     return html`${unsafeHTML(getIconSvg("image"))}`;
@@ -42,25 +46,48 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
       item.x,
       item.y
     );
+    const zoom = simpleWhiteboard.getZoom();
+    const width = item.width * zoom;
+    const height = item.height * zoom;
     const cachedImage = this.pictureCache.get(item.src);
     if (cachedImage) {
-      context.drawImage(
-        cachedImage,
-        pictureX,
-        pictureY,
-        item.width,
-        item.height
-      );
+      context.drawImage(cachedImage, pictureX, pictureY, width, height);
     } else {
       const img = new Image();
       img.onload = () => {
+        // Redraw everything once the picture is cached, so that the item transformations are applied
         this.pictureCache.set(item.src, img);
-        context.drawImage(img, pictureX, pictureY, item.width, item.height);
+        simpleWhiteboard.draw();
       };
       img.src = item.src;
     }
   }
 
+  public override toSvg(item: PictureItem): string {
+    return `<image href="${escapeXml(item.src)}" x="${item.x}" y="${
+      item.y
+    }" width="${item.width}" height="${
+      item.height
+    }" preserveAspectRatio="none"/>`;
+  }
+
+  public override loadItemResources(item: PictureItem): Promise<void> {
+    if (this.pictureCache.has(item.src)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => {
+        this.pictureCache.set(item.src, img);
+        resolve();
+      };
+      // A broken picture should not prevent the export of the other items
+      img.onerror = () => resolve();
+      img.src = item.src;
+    });
+  }
+
   public override onToolSelected(): void {
     const simpleWhiteboard = this.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -78,6 +105,69 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     };
   }
 
+  /**
+   * Get the pixels of a cached picture.
+   *
+   * @param src The source of the picture.
+   * @returns The pixels of the picture, or `null` if the picture is not loaded yet or can't be read.
+   */
+  private getPixels(src: string): ImageData | null {
+    if (this.pixelsCache.has(src)) {
+      return this.pixelsCache.get(src) || null;
+    }
+    const img = this.pictureCache.get(src);
+    if (!img) {
+      return null;
+    }
+
+    let pixels: ImageData | null = null;
+    const canvas = document.createElement("canvas");
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const context = canvas.getContext("2d");
+    if (context && canvas.width > 0 && canvas.height > 0) {
+      context.drawImage(img, 0, 0);
+      try {
+        pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+      } catch (e) {
+        // The canvas is tainted by a cross-origin picture
+        pixels = null;
+      }
+    }
+    this.pixelsCache.set(src, pixels);
+    return pixels;
+  }
+
+  public override hitTest(
+    item: PictureItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const boundingRect = this.getBoundingRect(item);
+    if (!boundingRect || !isPointInRect({ x, y }, boundingRect, tolerance)) {
+      return false;
+    }
+
+    // Transparent areas of the picture don't hit, if its pixels can be read
+    const pixels = this.getPixels(item.src);
+    if (!pixels || item.width === 0 || item.height === 0) {
+      return true;
+    }
+    const clampedX = Math.min(Math.max(x, item.x), item.x + item.width);
+    const clampedY = Math.min(Math.max(y, item.y), item.y + item.height);
+    const pixelX = Math.min(
+      pixels.width - 1,
+      Math.floor(((clampedX - item.x) / item.width) * pixels.width)
+    );
+    const pixelY = Math.min(
+      pixels.height - 1,
+      Math.floor(((clampedY - item.y) / item.height) * pixels.height)
+    );
+    const alpha = pixels.data[(pixelY * pixels.width + pixelX) * 4 + 3];
+    return alpha > 0;
+  }
+
   public override getCoordsItem(item: PictureItem): { x: number; y: number } {
     return { x: item.x, y: item.y };
   }
@@ -94,6 +184,20 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     };
   }
 
+  public override resizeItem(
+    item: PictureItem,
+    boundingRect: BoundingRect
+  ): PictureItem {
+    const { x, y, width, height } = boundingRect;
+    return {
+      ...item,
+      x,
+      y,
+      width,
+      height,
+    };
+  }
+
   public override renderToolOptions(item: PictureItem | null) {
     const simpleWhiteboard = super.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -183,6 +287,7 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
           reader.readAsDataURL(file);
         }}
       />
+      ${this.renderOrderButtons([item.id])}
       <button
         @click=${() => {
           simpleWhiteboard.removeItemById(item.id, true);
@@ -2,28 +2,79 @@ import { TemplateResult, html } from "lit";
 import { customElement } from "lit/decorators.js";
 import { unsafeHTML } from "lit/directives/unsafe-html.js";
 
+import "../components/colorSelect";
 import SimpleWhiteboardTool, {
+  BoundingRect,
+  RoughCanvas,
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
+import {
+  HANDLE_SIZE,
+  ResizeHandle,
+  findResizeHandle,
+  getRotationHandlePosition,
+  resizeRect,
+} from "../lib/handles";
+import {
+  getDistance,
+  getRectCenter,
+  getRectsBoundingRect,
+  rotatePoint,
+} from "../lib/geometry";
+import { Alignment, DistributionAxis } from "../lib/align";
+import { isGroupItem } from "../lib/groups";
 import { SimpleWhiteboard } from "../simple-whiteboard";
 
 enum PointerAction {
   SELECT = "select",
   DRAG = "drag",
+  MARQUEE = "marquee",
+  RESIZE = "resize",
+  ROTATE = "rotate",
+  VERTEX = "vertex",
 }
 
 interface PointerItem extends WhiteboardItem {
   x: number;
   y: number;
   options: {
-    selectedItemId: string | null;
     clickedItemId: string | null;
     action: PointerAction;
-    clickedItemCoords: { x: number; y: number } | null;
+    toggleSelection: boolean;
+    // Coordinates of the dragged items and the rect containing them when the drag started
+    draggedItemsCoords: Record<string, { x: number; y: number }>;
+    draggedItemsRect: BoundingRect | null;
+    // Current position of the pointer, used to draw the marquee
+    currentX: number;
+    currentY: number;
+    // Resized or rotated item and its unrotated bounding rect when the action started
+    resizeHandle: ResizeHandle | null;
+    vertexIndex: number | null;
+    transformedItem: WhiteboardItem | null;
+    transformedItemRect: BoundingRect | null;
   };
 }
 
+/**
+ * Maximum distance between the pointer and an item to select it on the screen, in pixels.
+ */
+const HIT_TOLERANCE = 4;
+
+const ALIGNMENT_BUTTONS: [Alignment, string][] = [
+  ["left", "Left"],
+  ["center", "Center"],
+  ["right", "Right"],
+  ["top", "Top"],
+  ["middle", "Middle"],
+  ["bottom", "Bottom"],
+];
+
+const DISTRIBUTION_BUTTONS: [DistributionAxis, string][] = [
+  ["horizontal", "Horizontally"],
+  ["vertical", "Vertically"],
+];
+
 @customElement("simple-whiteboard--tool-pointer")
 export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
   public override getToolIcon() {
@@ -34,41 +85,199 @@ export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
     return "pointer";
   }
 
+  public override drawItem(
+    _rc: RoughCanvas,
+    context: CanvasRenderingContext2D,
+    item: PointerItem
+  ): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    if (item.options.action !== PointerAction.MARQUEE) {
+      return;
+    }
+
+    const { x: startX, y: startY } = simpleWhiteboard.coordsToCanvasCoords(
+      item.x,
+      item.y
+    );
+    const { x: endX, y: endY } = simpleWhiteboard.coordsToCanvasCoords(
+      item.options.currentX,
+      item.options.currentY
+    );
+
+    context.save();
+    context.strokeStyle = "#135aa0";
+    context.fillStyle = "rgba(19, 90, 160, 0.08)";
+    context.lineWidth = 1;
+    context.setLineDash([4, 4]);
+    context.beginPath();
+    context.rect(startX, startY, endX - startX, endY - startY);
+    context.fill();
+    context.stroke();
+    context.restore();
+  }
+
   private findSelectedItemUnderPointer(
     simpleWhiteboard: SimpleWhiteboard,
     x: number,
     y: number
   ): WhiteboardItem | null {
-    // Get all items that are under the pointer
-    const items = [...simpleWhiteboard.getItems()].reverse();
-    const potentialItems = items.filter((item) => {
-      const tool = simpleWhiteboard.getToolInstance(item.kind);
-      if (!tool) {
-        return false;
-      }
-      const boundingRect = tool.getBoundingRect(item);
-      if (!boundingRect) {
-        return false;
-      }
-      const {
-        x: bourdingRectX,
-        y: boundingRectY,
-        width,
-        height,
-      } = boundingRect;
-      return (
-        x > bourdingRectX &&
-        x < bourdingRectX + width &&
-        y > boundingRectY &&
-        y < boundingRectY + height
-      );
-    });
+    // Find the topmost item whose actual shape is under the pointer, on a visible and unlocked layer ; locked items are only found while holding Alt
+    const tolerance = HIT_TOLERANCE / simpleWhiteboard.getZoom();
+    const { altKey } = simpleWhiteboard.getModifierKeys();
+    const items = simpleWhiteboard.getItemsInDrawingOrder().reverse();
+    const itemClicked = items.find(
+      (item) =>
+        (altKey || !item.locked) &&
+        simpleWhiteboard.isItemOnEditableLayer(item) &&
+        simpleWhiteboard.hitTestItem(item, x, y, tolerance)
+    );
 
-    if (potentialItems.length > 0) {
-      return potentialItems[0];
+    return itemClicked || null;
+  }
+
+  /**
+   * Find the item to select under the pointer.
+   * Clicking on a member of a group selects the group, unless the group was entered by double-clicking on it.
+   * Clicking outside of the entered group leaves it.
+   *
+   * @param simpleWhiteboard The `SimpleWhiteboard` instance.
+   * @param x The x coordinate of the pointer.
+   * @param y The y coordinate of the pointer.
+   * @returns The item to select, or `null` if there is no item under the pointer.
+   */
+  private findSelectableItemUnderPointer(
+    simpleWhiteboard: SimpleWhiteboard,
+    x: number,
+    y: number
+  ): WhiteboardItem | null {
+    const item = this.findSelectedItemUnderPointer(simpleWhiteboard, x, y);
+    const enteredGroupId = simpleWhiteboard.getEnteredGroupId();
+    if (
+      enteredGroupId &&
+      !(item && simpleWhiteboard.isItemInGroup(item.id, enteredGroupId))
+    ) {
+      simpleWhiteboard.enterGroup(null);
     }
+    return item ? simpleWhiteboard.getSelectableItem(item) : null;
+  }
 
-    return null;
+  /**
+   * Find all items that are fully inside the marquee.
+   * Only the items of the entered group, or the items that are not in a group, can be selected this way.
+   * Locked items are only selected while holding Alt, and items on hidden or locked layers are never selected.
+   *
+   * @param simpleWhiteboard The `SimpleWhiteboard` instance.
+   * @param marquee The marquee drawn by the user.
+   * @returns The IDs of the items inside the marquee.
+   */
+  private findItemsInMarquee(
+    simpleWhiteboard: SimpleWhiteboard,
+    marquee: PointerItem
+  ): string[] {
+    const minX = Math.min(marquee.x, marquee.options.currentX);
+    const maxX = Math.max(marquee.x, marquee.options.currentX);
+    const minY = Math.min(marquee.y, marquee.options.currentY);
+    const maxY = Math.max(marquee.y, marquee.options.currentY);
+
+    const enteredGroupId = simpleWhiteboard.getEnteredGroupId();
+    const { altKey } = simpleWhiteboard.getModifierKeys();
+    return simpleWhiteboard
+      .getItems()
+      .filter((item) => {
+        const parent = simpleWhiteboard.getParentGroup(item.id);
+        if (
+          (parent ? parent.id : null) !== enteredGroupId ||
+          (item.locked && !altKey) ||
+          !simpleWhiteboard.isItemOnEditableLayer(item)
+        ) {
+          return false;
+        }
+        const boundingRect = simpleWhiteboard.getBoundingRect(item);
+        if (!boundingRect) {
+          return false;
+        }
+        const { x, y, width, height } = boundingRect;
+        return (
+          x >= minX && x + width <= maxX && y >= minY && y + height <= maxY
+        );
+      })
+      .map((item) => item.id);
+  }
+
+  /**
+   * Find the handle of the selected item under the pointer.
+   * Handles are only available when a single item is selected.
+   *
+   * @param simpleWhiteboard The `SimpleWhiteboard` instance.
+   * @param x The x coordinate of the pointer.
+   * @param y The y coordinate of the pointer.
+   * @returns The resize handle, `"rotation"` for the rotation handle, or `null` if there is no handle under the pointer.
+   */
+  private findHandleUnderPointer(
+    simpleWhiteboard: SimpleWhiteboard,
+    x: number,
+    y: number
+  ): ResizeHandle | "rotation" | null {
+    const selectedItem = simpleWhiteboard.getSelectedItem();
+    if (!selectedItem || !simpleWhiteboard.isItemTransformable(selectedItem)) {
+      return null;
+    }
+    const boundingRect =
+      simpleWhiteboard.getUnrotatedBoundingRect(selectedItem);
+    if (!boundingRect) {
+      return null;
+    }
+
+    // Handles follow the rotation of the item
+    const zoom = simpleWhiteboard.getZoom();
+    const tolerance = HANDLE_SIZE / zoom;
+    const point = simpleWhiteboard.unrotatePoint(selectedItem, { x, y });
+
+    const rotationHandle = getRotationHandlePosition(boundingRect, zoom);
+    if (
+      Math.abs(rotationHandle.x - point.x) <= tolerance &&
+      Math.abs(rotationHandle.y - point.y) <= tolerance
+    ) {
+      return "rotation";
+    }
+
+    return findResizeHandle(boundingRect, point.x, point.y, tolerance);
+  }
+
+  /**
+   * Find the vertex handle of the selected item under the pointer.
+   * Vertex handles are only available when a single item is selected and its tool has editable vertices.
+   *
+   * @param simpleWhiteboard The `SimpleWhiteboard` instance.
+   * @param x The x coordinate of the pointer.
+   * @param y The y coordinate of the pointer.
+   * @returns The index of the vertex, or `null` if there is no vertex under the pointer.
+   */
+  private findVertexUnderPointer(
+    simpleWhiteboard: SimpleWhiteboard,
+    x: number,
+    y: number
+  ): number | null {
+    const selectedItem = simpleWhiteboard.getSelectedItem();
+    if (!selectedItem) {
+      return null;
+    }
+    const tool = simpleWhiteboard.getToolInstance(selectedItem.kind);
+    const vertices = tool ? tool.getVertices(selectedItem) : null;
+    if (!vertices) {
+      return null;
+    }
+
+    const tolerance = HANDLE_SIZE / simpleWhiteboard.getZoom();
+    const point = simpleWhiteboard.unrotatePoint(selectedItem, { x, y });
+    const index = vertices.findIndex(
+      (vertex) => getDistance(vertex, point) <= tolerance
+    );
+    return index === -1 ? null : index;
   }
 
   public override handleDrawingStart(x: number, y: number): void {
@@ -83,22 +292,106 @@ export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
       y
     );
 
-    let action = PointerAction.SELECT;
+    // Vertex handles take precedence over the resize handles they may overlap
+    const vertexIndex = this.findVertexUnderPointer(
+      simpleWhiteboard,
+      itemX,
+      itemY
+    );
+    const editedItem = simpleWhiteboard.getSelectedItem();
+    if (vertexIndex !== null && editedItem) {
+      const vertexItem: PointerItem = {
+        kind: this.getToolName(),
+        id: itemId,
+        x: itemX,
+        y: itemY,
+        options: {
+          clickedItemId: editedItem.id,
+          action: PointerAction.VERTEX,
+          toggleSelection: false,
+          draggedItemsCoords: {},
+          draggedItemsRect: null,
+          currentX: itemX,
+          currentY: itemY,
+          resizeHandle: null,
+          vertexIndex,
+          transformedItem: editedItem,
+          transformedItemRect:
+            simpleWhiteboard.getUnrotatedBoundingRect(editedItem),
+        },
+      };
+      simpleWhiteboard.setCurrentDrawing(vertexItem);
+      return;
+    }
 
-    const selectedItemId = simpleWhiteboard.getSelectedItemId();
-    const itemClicked = this.findSelectedItemUnderPointer(
+    const handle = this.findHandleUnderPointer(simpleWhiteboard, itemX, itemY);
+    const transformedItem = handle ? simpleWhiteboard.getSelectedItem() : null;
+    if (handle && transformedItem) {
+      const transformItem: PointerItem = {
+        kind: this.getToolName(),
+        id: itemId,
+        x: itemX,
+        y: itemY,
+        options: {
+          clickedItemId: transformedItem.id,
+          action:
+            handle === "rotation" ? PointerAction.ROTATE : PointerAction.RESIZE,
+          toggleSelection: false,
+          draggedItemsCoords: {},
+          draggedItemsRect: null,
+          currentX: itemX,
+          currentY: itemY,
+          resizeHandle: handle === "rotation" ? null : handle,
+          vertexIndex: null,
+          transformedItem,
+          transformedItemRect:
+            simpleWhiteboard.getUnrotatedBoundingRect(transformedItem),
+        },
+      };
+      simpleWhiteboard.setCurrentDrawing(transformItem);
+      return;
+    }
+
+    const { shiftKey } = simpleWhiteboard.getModifierKeys();
+    const itemClicked = this.findSelectableItemUnderPointer(
       simpleWhiteboard,
       itemX,
       itemY
     );
 
-    let clickedItemCoords = null;
-    if (selectedItemId && itemClicked && selectedItemId === itemClicked.id) {
+    let action = PointerAction.SELECT;
+    const draggedItemsCoords: Record<string, { x: number; y: number }> = {};
+    let draggedItemsRect: BoundingRect | null = null;
+
+    if (!itemClicked) {
+      action = PointerAction.MARQUEE;
+    } else if (!shiftKey && simpleWhiteboard.isItemSelected(itemClicked.id)) {
       action = PointerAction.DRAG;
-      const tool = simpleWhiteboard.getToolInstance(itemClicked.kind);
-      if (tool) {
-        clickedItemCoords = tool.getCoordsItem(itemClicked);
-      }
+      // Groups are moved through their members
+      simpleWhiteboard
+        .getItemIdsWithGroupMembers(simpleWhiteboard.getSelectedItemIds())
+        .map((draggedItemId) => simpleWhiteboard.getItemById(draggedItemId))
+        .forEach((draggedItem) => {
+          const tool = draggedItem
+            ? simpleWhiteboard.getToolInstance(draggedItem.kind)
+            : null;
+          if (
+            draggedItem &&
+            tool &&
+            !isGroupItem(draggedItem) &&
+            !draggedItem.locked
+          ) {
+            draggedItemsCoords[draggedItem.id] =
+              tool.getCoordsItem(draggedItem);
+          }
+        });
+      draggedItemsRect = getRectsBoundingRect(
+        simpleWhiteboard
+          .getSelectedItems()
+          .filter((selectedItem) => !selectedItem.locked)
+          .map((selectedItem) => simpleWhiteboard.getBoundingRect(selectedItem))
+          .filter((rect): rect is BoundingRect => !!rect)
+      );
     }
 
     const item: PointerItem = {
@@ -108,9 +401,16 @@ export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
       y: itemY,
       options: {
         clickedItemId: itemClicked ? itemClicked.id : null,
-        selectedItemId: simpleWhiteboard.getSelectedItemId(),
         action,
-        clickedItemCoords,
+        toggleSelection: shiftKey,
+        draggedItemsCoords,
+        draggedItemsRect,
+        currentX: itemX,
+        currentY: itemY,
+        resizeHandle: null,
+        vertexIndex: null,
+        transformedItem: null,
+        transformedItemRect: null,
       },
     };
 
@@ -132,51 +432,188 @@ export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
       return;
     }
 
-    if (currentDrawing.options.action !== PointerAction.DRAG) {
-      return;
-    }
-
     const pointerItem = currentDrawing as PointerItem;
-    const pointerAction = pointerItem.options.action;
-    const clickedItemId = pointerItem.options.clickedItemId;
-    if (!clickedItemId || pointerAction !== PointerAction.DRAG) {
-      return;
-    }
-
-    const clickedItem = simpleWhiteboard.getItemById(clickedItemId);
-    if (!clickedItem) {
-      return;
-    }
-
-    const tool = simpleWhiteboard.getToolInstance(clickedItem.kind);
-    if (!tool) {
-      return;
-    }
-
-    const { x: startX, y: startY, options } = currentDrawing as PointerItem;
+    const { x: startX, y: startY, options } = pointerItem;
     const { x: fixedX, y: fixedY } = simpleWhiteboard.coordsFromCanvasCoords(
       x,
       y
     );
-    const { clickedItemCoords } = options;
-    if (!clickedItemCoords) {
-      return;
-    }
-    const { x: clickedItemX, y: clickedItemY } = clickedItemCoords;
 
-    const deltaX = fixedX - startX;
-    const deltaY = fixedY - startY;
+    switch (options.action) {
+      case PointerAction.MARQUEE:
+        simpleWhiteboard.setCurrentDrawing({
+          ...pointerItem,
+          options: { ...options, currentX: fixedX, currentY: fixedY },
+        } as PointerItem);
+        break;
 
-    const movedInstance = tool.setCoordsItem(
-      clickedItem,
-      clickedItemX + deltaX,
-      clickedItemY + deltaY
-    );
-    if (!movedInstance) {
-      return;
-    }
+      case PointerAction.DRAG: {
+        const deltaX = fixedX - startX;
+        const deltaY = fixedY - startY;
+
+        // Align the dragged items with the other items, except the connectors that follow them
+        const draggedItemIds = Object.keys(options.draggedItemsCoords);
+        const followingItemIds = simpleWhiteboard
+          .getItems()
+          .filter((item) => {
+            const tool = simpleWhiteboard.getToolInstance(item.kind);
+            return (
+              tool &&
+              tool
+                .getBoundItemIds(item)
+                .some((boundItemId) => draggedItemIds.includes(boundItemId))
+            );
+          })
+          .map((item) => item.id);
+        const { offsetX, offsetY } = options.draggedItemsRect
+          ? simpleWhiteboard.snapRectToItems(
+              {
+                ...options.draggedItemsRect,
+                x: options.draggedItemsRect.x + deltaX,
+                y: options.draggedItemsRect.y + deltaY,
+              },
+              [...draggedItemIds, ...followingItemIds]
+            )
+          : { offsetX: null, offsetY: null };
+
+        // On the axes on which the items are not aligned with other items, the dragged rect is snapped to the grid, so that the items keep their layout
+        const { draggedItemsRect } = options;
+        const gridPoint = draggedItemsRect
+          ? simpleWhiteboard.snapPoint({
+              x: draggedItemsRect.x + deltaX,
+              y: draggedItemsRect.y + deltaY,
+            })
+          : null;
+        const gridDeltaX =
+          gridPoint && draggedItemsRect
+            ? gridPoint.x - draggedItemsRect.x
+            : deltaX;
+        const gridDeltaY =
+          gridPoint && draggedItemsRect
+            ? gridPoint.y - draggedItemsRect.y
+            : deltaY;
+        const movedDeltaX = offsetX !== null ? deltaX + offsetX : gridDeltaX;
+        const movedDeltaY = offsetY !== null ? deltaY + offsetY : gridDeltaY;
+
+        const movedItems = Object.entries(options.draggedItemsCoords)
+          .map(([draggedItemId, coords]) => {
+            const draggedItem = simpleWhiteboard.getItemById(draggedItemId);
+            if (!draggedItem) {
+              return null;
+            }
+            const tool = simpleWhiteboard.getToolInstance(draggedItem.kind);
+            if (!tool) {
+              return null;
+            }
+            return tool.setCoordsItem(
+              draggedItem,
+              coords.x + movedDeltaX,
+              coords.y + movedDeltaY
+            );
+          })
+          .filter((movedItem): movedItem is WhiteboardItem => !!movedItem);
+
+        simpleWhiteboard.updateItems(movedItems, true);
+        break;
+      }
 
-    simpleWhiteboard.updateItemById(clickedItemId, movedInstance, true);
+      case PointerAction.RESIZE: {
+        const { resizeHandle, transformedItem, transformedItemRect } = options;
+        if (!resizeHandle || !transformedItem || !transformedItemRect) {
+          break;
+        }
+        const tool = simpleWhiteboard.getToolInstance(transformedItem.kind);
+        if (!tool) {
+          break;
+        }
+
+        // Resize in the unrotated space of the item ; holding Shift keeps the aspect ratio
+        const rotation = transformedItem.rotation || 0;
+        const center = getRectCenter(transformedItemRect);
+        const point = rotatePoint({ x: fixedX, y: fixedY }, center, -rotation);
+        const { shiftKey } = simpleWhiteboard.getModifierKeys();
+        const newRect = resizeRect(
+          transformedItemRect,
+          resizeHandle,
+          point.x,
+          point.y,
+          shiftKey
+        );
+
+        // The item rotates around its new center, so move it to keep the opposite side in place
+        const newCenter = getRectCenter(newRect);
+        const rotatedNewCenter = rotatePoint(newCenter, center, rotation);
+        simpleWhiteboard.updateItemById(
+          transformedItem.id,
+          tool.resizeItem(transformedItem, {
+            ...newRect,
+            x: newRect.x + rotatedNewCenter.x - newCenter.x,
+            y: newRect.y + rotatedNewCenter.y - newCenter.y,
+          }),
+          true
+        );
+        break;
+      }
+
+      case PointerAction.VERTEX: {
+        const { vertexIndex, transformedItem, transformedItemRect } = options;
+        if (vertexIndex === null || !transformedItem || !transformedItemRect) {
+          break;
+        }
+        const tool = simpleWhiteboard.getToolInstance(transformedItem.kind);
+        if (!tool) {
+          break;
+        }
+
+        // Move the vertex in the unrotated space of the item
+        const rotation = transformedItem.rotation || 0;
+        const center = getRectCenter(transformedItemRect);
+        const point = rotatePoint({ x: fixedX, y: fixedY }, center, -rotation);
+        let movedItem = tool.moveVertex(transformedItem, vertexIndex, point);
+
+        // The item rotates around its new center, so move it to keep the other vertices in place
+        const newRect = simpleWhiteboard.getUnrotatedBoundingRect(movedItem);
+        if (rotation && newRect) {
+          const newCenter = getRectCenter(newRect);
+          const rotatedNewCenter = rotatePoint(newCenter, center, rotation);
+          const coords = tool.getCoordsItem(movedItem);
+          movedItem = tool.setCoordsItem(
+            movedItem,
+            coords.x + rotatedNewCenter.x - newCenter.x,
+            coords.y + rotatedNewCenter.y - newCenter.y
+          );
+        }
+
+        simpleWhiteboard.updateItemById(transformedItem.id, movedItem, true);
+        break;
+      }
+
+      case PointerAction.ROTATE: {
+        const { transformedItem, transformedItemRect } = options;
+        if (!transformedItem || !transformedItemRect) {
+          break;
+        }
+
+        // The rotation handle is above the item, so an angle of 0 means the pointer is straight above the center
+        const center = getRectCenter(transformedItemRect);
+        let rotation =
+          Math.atan2(fixedY - center.y, fixedX - center.x) + Math.PI / 2;
+
+        // Holding Shift snaps the rotation to steps of 15 degrees
+        const { shiftKey } = simpleWhiteboard.getModifierKeys();
+        if (shiftKey) {
+          const step = Math.PI / 12;
+          rotation = Math.round(rotation / step) * step;
+        }
+
+        simpleWhiteboard.updateItemById(
+          transformedItem.id,
+          { ...transformedItem, rotation },
+          true
+        );
+        break;
+      }
+    }
   }
 
   public override handleDrawingEnd(): void {
@@ -194,19 +631,282 @@ export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
       return;
     }
 
-    const { options } = currentDrawing as PointerItem;
+    const pointerItem = currentDrawing as PointerItem;
+    const { options } = pointerItem;
+    const selectedItemIds = simpleWhiteboard.getSelectedItemIds();
 
     switch (options.action) {
-      case PointerAction.SELECT:
-        simpleWhiteboard.setSelectedItemId(options.clickedItemId);
+      case PointerAction.SELECT: {
+        const { clickedItemId, toggleSelection } = options;
+        if (!clickedItemId) {
+          break;
+        }
+        if (!toggleSelection) {
+          simpleWhiteboard.setSelectedItemIds([clickedItemId]);
+        } else if (selectedItemIds.includes(clickedItemId)) {
+          simpleWhiteboard.setSelectedItemIds(
+            selectedItemIds.filter((id) => id !== clickedItemId)
+          );
+        } else {
+          simpleWhiteboard.setSelectedItemIds([
+            ...selectedItemIds,
+            clickedItemId,
+          ]);
+        }
         break;
+      }
+      case PointerAction.MARQUEE: {
+        const itemIds = this.findItemsInMarquee(simpleWhiteboard, pointerItem);
+        if (!options.toggleSelection) {
+          simpleWhiteboard.setSelectedItemIds(itemIds);
+        } else {
+          simpleWhiteboard.setSelectedItemIds([
+            ...selectedItemIds,
+            ...itemIds.filter((id) => !selectedItemIds.includes(id)),
+          ]);
+        }
+        break;
+      }
       case PointerAction.DRAG:
+      case PointerAction.RESIZE:
+      case PointerAction.ROTATE:
+      case PointerAction.VERTEX:
         break;
     }
 
     simpleWhiteboard.setCurrentDrawing(null);
   }
 
+  public override handleDoubleClick(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
+      x,
+      y
+    );
+    const item = this.findSelectableItemUnderPointer(
+      simpleWhiteboard,
+      itemX,
+      itemY
+    );
+    if (!item) {
+      return;
+    }
+
+    // Enter the group, and select its member under the pointer
+    if (isGroupItem(item)) {
+      simpleWhiteboard.enterGroup(item.id);
+      const member = this.findSelectableItemUnderPointer(
+        simpleWhiteboard,
+        itemX,
+        itemY
+      );
+      simpleWhiteboard.setSelectedItemIds(member ? [member.id] : []);
+      return;
+    }
+
+    // Edit the text of the item in place, if it has one
+    simpleWhiteboard.setSelectedItemIds([item.id]);
+    simpleWhiteboard.startTextEditing(item.id);
+  }
+
+  generateColorSelect(
+    colors: string[],
+    currentColor: string | null,
+    clickCallback: (color: string) => void
+  ) {
+    return colors.map((color) => {
+      return html`<color-select
+        color=${color}
+        .selected=${currentColor === color}
+        @color-click=${(e: CustomEvent) => {
+          clickCallback(e.detail.color);
+        }}
+      ></color-select>`;
+    });
+  }
+
+  /**
+   * Render the button that locks the items, or unlocks them if they are all locked.
+   *
+   * @param simpleWhiteboard The `SimpleWhiteboard` instance.
+   * @param items The items to lock or unlock.
+   * @returns The template result with the button.
+   */
+  private renderLockButton(
+    simpleWhiteboard: SimpleWhiteboard,
+    items: WhiteboardItem[]
+  ): TemplateResult {
+    const itemIds = items.map((item) => item.id);
+    if (items.every((item) => item.locked)) {
+      return html`<button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.unlockItems(itemIds);
+        }}
+      >
+        Unlock
+      </button>`;
+    }
+    return html`<button
+      class="width-100-percent"
+      @click=${() => {
+        simpleWhiteboard.lockItems(itemIds);
+      }}
+    >
+      Lock
+    </button>`;
+  }
+
+  /**
+   * Render the options shared by all the selected items.
+   *
+   * @param simpleWhiteboard The `SimpleWhiteboard` instance.
+   * @param items The selected items.
+   * @returns The template result with the shared options.
+   */
+  private renderSelectionOptions(
+    simpleWhiteboard: SimpleWhiteboard,
+    items: WhiteboardItem[]
+  ): TemplateResult {
+    // Shapes use `stroke` for their color, while pen and text items use `color`
+    const getColorKey = (item: WhiteboardItem) => {
+      if (item.options.stroke !== undefined) {
+        return "stroke";
+      }
+      if (item.options.color !== undefined) {
+        return "color";
+      }
+      return null;
+    };
+    const getSharedValue = (values: unknown[]) =>
+      values.every((value) => value === values[0]) ? values[0] : null;
+
+    const hasColor = items.every((item) => getColorKey(item) !== null);
+    const hasFill = items.every((item) => item.options.fill !== undefined);
+    const hasStrokeWidth = items.every(
+      (item) => item.options.strokeWidth !== undefined
+    );
+
+    const updateOptions = (
+      getOptions: (item: WhiteboardItem) => Record<string, any>
+    ) => {
+      simpleWhiteboard.updateItems(
+        items.map((item) => ({
+          ...item,
+          options: { ...item.options, ...getOptions(item) },
+        })),
+        true
+      );
+    };
+
+    return html`
+      <p>${items.length} items selected</p>
+      ${hasStrokeWidth
+        ? html`<p>Stroke width:</p>
+            <input
+              class="width-100-percent"
+              type="range"
+              min="1"
+              max="50"
+              step="7"
+              .value=${getSharedValue(
+                items.map((item) => item.options.strokeWidth)
+              ) || 1}
+              @input=${(e: Event) => {
+                const target = e.target as HTMLInputElement;
+                const strokeWidth = parseInt(target.value, 10);
+                updateOptions(() => ({ strokeWidth }));
+              }}
+            />`
+        : null}
+      ${hasColor
+        ? html`<p>Stroke:</p>
+            ${this.generateColorSelect(
+              ["#000000", "#ff1a40", "#29b312", "#135aa0", "#fc8653"],
+              getSharedValue(
+                items.map((item) => item.options[getColorKey(item) as string])
+              ) as string | null,
+              (color) => {
+                updateOptions((item) => ({
+                  [getColorKey(item) as string]: color,
+                }));
+              }
+            )}`
+        : null}
+      ${hasFill
+        ? html`<p>Fill:</p>
+            ${this.generateColorSelect(
+              ["transparent", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+              getSharedValue(items.map((item) => item.options.fill)) as
+                | string
+                | null,
+              (fill) => {
+                updateOptions(() => ({ fill }));
+              }
+            )}`
+        : null}
+      <p>Align:</p>
+      <p>
+        ${ALIGNMENT_BUTTONS.map(
+          ([alignment, label]) => html`<button
+            @click=${() => simpleWhiteboard.alignItems(alignment)}
+          >
+            ${label}
+          </button>`
+        )}
+      </p>
+      ${items.length > 2
+        ? html`<p>Distribute:</p>
+            <p>
+              ${DISTRIBUTION_BUTTONS.map(
+                ([axis, label]) => html`<button
+                  @click=${() => simpleWhiteboard.distributeItems(axis)}
+                >
+                  ${label}
+                </button>`
+              )}
+            </p>`
+        : null}
+      ${this.renderOrderButtons(items.map((item) => item.id))}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.groupItems(items.map((item) => item.id));
+        }}
+      >
+        Group
+      </button>
+      ${items.some((item) => isGroupItem(item))
+        ? html`<button
+            class="width-100-percent"
+            @click=${() => {
+              simpleWhiteboard.ungroupItems(items.map((item) => item.id));
+            }}
+          >
+            Ungroup
+          </button>`
+        : null}
+      ${this.renderLockButton(simpleWhiteboard, items)}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.removeItemsByIds(
+            simpleWhiteboard.getItemIdsWithGroupMembers(
+              items.map((item) => item.id)
+            ),
+            true
+          );
+        }}
+      >
+        Delete
+      </button>
+    `;
+  }
+
   public override renderToolOptions(
     item: WhiteboardItem | null
   ): TemplateResult | null {
@@ -215,14 +915,34 @@ export class SimpleWhiteboardToolPointer extends SimpleWhiteboardTool {
       return null;
     }
 
+    const selectedItems = simpleWhiteboard.getSelectedItems();
+    if (selectedItems.length > 1) {
+      return this.renderSelectionOptions(simpleWhiteboard, selectedItems);
+    }
+
     if (!item) {
-      return html` <p>Select an item by clicking on it.</p> `;
+      return html`
+        <p>
+          Select an item by clicking on it, or drag to select multiple items.
+          Hold Shift to add or remove items from the selection, and press Ctrl+G
+          to group them. Hold Alt to select locked items.
+        </p>
+      `;
     } else {
       const tool = simpleWhiteboard.getToolInstance(item.kind);
       if (!tool) {
         return null;
       }
-      return tool.renderToolOptions(item);
+      if (item.locked) {
+        return html`
+          <p>This item is locked.</p>
+          ${this.renderLockButton(simpleWhiteboard, [item])}
+        `;
+      }
+      return html`
+        ${tool.renderToolOptions(item)}
+        ${this.renderLockButton(simpleWhiteboard, [item])}
+      `;
     }
   }
 }
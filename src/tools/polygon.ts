@@ -0,0 +1,481 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+
+import "../components/colorSelect";
+import SimpleWhiteboardTool, {
+  BoundingRect,
+  RoughCanvas,
+  RoughCanvasOptions,
+  WhiteboardItem,
+} from "../lib/SimpleWhiteboardTool";
+import { getIconSvg } from "../lib/icons";
+import {
+  Point,
+  getDistance,
+  getDistanceToPolyline,
+  getPointsBoundingRect,
+  isPointInPolygon,
+  mapPointBetweenRects,
+  shrinkRect,
+} from "../lib/geometry";
+import { getSvgFromDrawable, roughGenerator } from "../lib/svg";
+
+interface PolygonItem extends WhiteboardItem {
+  points: Point[];
+  // A closed shape is a polygon, an open one is a polyline
+  closed: boolean;
+  options: RoughCanvasOptions;
+}
+
+/**
+ * Maximum distance between a click and the first point to close the shape, on the screen, in pixels.
+ */
+const CLOSE_DISTANCE = 8;
+
+/**
+ * Consecutive points closer than this distance on the screen are merged, in pixels.
+ * This drops the points added by the clicks of a double-click.
+ */
+const MERGE_DISTANCE = 2;
+
+@customElement("simple-whiteboard--tool-polygon")
+export class SimpleWhiteboardToolPolygon extends SimpleWhiteboardTool {
+  private stroke = "#000000";
+  private strokeWidth = 1;
+  private fill = "transparent";
+  private closed = true;
+
+  public override getToolIcon() {
+    return html`${unsafeHTML(getIconSvg("hexagon"))}`;
+  }
+
+  public override getToolName() {
+    return "polygon";
+  }
+
+  public override drawItem(
+    rc: RoughCanvas,
+    _context: CanvasRenderingContext2D,
+    item: PolygonItem
+  ): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const points = item.points.map((point): [number, number] => {
+      const { x, y } = simpleWhiteboard.coordsToCanvasCoords(point.x, point.y);
+      return [x, y];
+    });
+    const options = {
+      ...item.options,
+      strokeWidth: (item.options.strokeWidth || 1) * simpleWhiteboard.getZoom(),
+    };
+
+    // The shape is only closed once it is finished
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (item.closed && (!currentDrawing || currentDrawing.id !== item.id)) {
+      rc.polygon(points, options);
+    } else {
+      rc.linearPath(points, options);
+    }
+  }
+
+  public override getBoundingRect(item: PolygonItem): BoundingRect {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const { x, y, width, height } = getPointsBoundingRect(item.points);
+    return {
+      x: x - strokeWidth / 2,
+      y: y - strokeWidth / 2,
+      width: width + strokeWidth,
+      height: height + strokeWidth,
+    };
+  }
+
+  public override hitTest(
+    item: PolygonItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const strokeWidth = item.options.strokeWidth || 1;
+
+    // A filled polygon can be hit anywhere, otherwise only its outline can be hit
+    if (
+      item.closed &&
+      item.options.fill &&
+      item.options.fill !== "transparent" &&
+      isPointInPolygon({ x, y }, item.points)
+    ) {
+      return true;
+    }
+    const distance = getDistanceToPolyline({ x, y }, item.points, item.closed);
+    return distance <= tolerance + strokeWidth / 2;
+  }
+
+  public override toSvg(item: PolygonItem): string {
+    const points = item.points.map(({ x, y }): [number, number] => [x, y]);
+    return getSvgFromDrawable(
+      item.closed
+        ? roughGenerator.polygon(points, item.options)
+        : roughGenerator.linearPath(points, item.options)
+    );
+  }
+
+  /**
+   * Add the shape being drawn to the whiteboard, if it has enough points.
+   *
+   * @param item The shape being drawn.
+   * @param points The points of the shape.
+   * @param closed Whether the shape is closed.
+   */
+  private finishDrawing(
+    item: PolygonItem,
+    points: Point[],
+    closed: boolean
+  ): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const mergeDistance = MERGE_DISTANCE / simpleWhiteboard.getZoom();
+    const mergedPoints = points.filter(
+      (point, i) => i === 0 || getDistance(point, points[i - 1]) > mergeDistance
+    );
+    if (
+      closed &&
+      mergedPoints.length > 1 &&
+      getDistance(mergedPoints[0], mergedPoints[mergedPoints.length - 1]) <=
+        mergeDistance
+    ) {
+      mergedPoints.pop();
+    }
+
+    if (mergedPoints.length >= (closed ? 3 : 2)) {
+      simpleWhiteboard.addItem(
+        { ...item, points: mergedPoints, closed } as PolygonItem,
+        true
+      );
+    }
+    simpleWhiteboard.setCurrentDrawing(null);
+  }
+
+  public override handleDrawingStart(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const point = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
+    );
+
+    // The last point of the shape being drawn follows the pointer, until the next click fixes it
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (currentDrawing && currentDrawing.kind === this.getToolName()) {
+      const item = currentDrawing as PolygonItem;
+      const points = item.points.slice(0, -1);
+
+      // Clicking on the first point closes the shape
+      const closeDistance = CLOSE_DISTANCE / simpleWhiteboard.getZoom();
+      if (
+        points.length >= 3 &&
+        getDistance(point, points[0]) <= closeDistance
+      ) {
+        this.finishDrawing(item, points, true);
+        return;
+      }
+
+      simpleWhiteboard.setCurrentDrawing({
+        ...item,
+        points: [...points, point, point],
+      } as PolygonItem);
+      return;
+    }
+
+    const item: PolygonItem = {
+      kind: this.getToolName(),
+      id: super.generateId(),
+      points: [point, point],
+      closed: this.closed,
+      options: {
+        stroke: this.stroke,
+        strokeWidth: this.strokeWidth,
+        fill: this.fill,
+      },
+    };
+
+    simpleWhiteboard.setCurrentDrawing(item);
+  }
+
+  public override handleDrawingMove(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (!currentDrawing) {
+      return;
+    }
+
+    if (currentDrawing.kind !== this.getToolName()) {
+      return;
+    }
+
+    const item = currentDrawing as PolygonItem;
+    const point = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
+    );
+    simpleWhiteboard.setCurrentDrawing({
+      ...item,
+      points: [...item.points.slice(0, -1), point],
+    } as PolygonItem);
+  }
+
+  public override handleDoubleClick(): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (!currentDrawing || currentDrawing.kind !== this.getToolName()) {
+      return;
+    }
+
+    // Double-clicking finishes the shape, without the point following the pointer
+    const item = currentDrawing as PolygonItem;
+    this.finishDrawing(item, item.points.slice(0, -1), item.closed);
+  }
+
+  public override onToolSelected(): void {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    simpleWhiteboard.setSelectedItemId(null);
+  }
+
+  public override getCoordsItem(item: PolygonItem): { x: number; y: number } {
+    const firstPoint = item.points[0];
+    return { x: firstPoint.x, y: firstPoint.y };
+  }
+
+  public override setCoordsItem(
+    item: PolygonItem,
+    x: number,
+    y: number
+  ): PolygonItem {
+    const firstPoint = item.points[0];
+    const deltaX = x - firstPoint.x;
+    const deltaY = y - firstPoint.y;
+    return {
+      ...item,
+      points: item.points.map((p) => ({
+        x: p.x + deltaX,
+        y: p.y + deltaY,
+      })),
+    };
+  }
+
+  public override resizeItem(
+    item: PolygonItem,
+    boundingRect: BoundingRect
+  ): PolygonItem {
+    const halfStrokeWidth = (item.options.strokeWidth || 1) / 2;
+    const from = shrinkRect(this.getBoundingRect(item), halfStrokeWidth);
+    const to = shrinkRect(boundingRect, halfStrokeWidth);
+
+    return {
+      ...item,
+      points: item.points.map((p) => mapPointBetweenRects(p, from, to)),
+    };
+  }
+
+  public override getVertices(item: PolygonItem): Point[] {
+    return item.points;
+  }
+
+  public override moveVertex(
+    item: PolygonItem,
+    index: number,
+    point: Point
+  ): PolygonItem {
+    return {
+      ...item,
+      points: item.points.map((p, i) => (i === index ? point : p)),
+    };
+  }
+
+  generateColorSelect(
+    colors: string[],
+    currentColor: string,
+    clickCallback: (color: string) => void
+  ) {
+    return colors.map((color) => {
+      return html`<color-select
+        color=${color}
+        .selected=${currentColor === color}
+        @color-click=${(e: CustomEvent) => {
+          clickCallback(e.detail.color);
+        }}
+      ></color-select>`;
+    });
+  }
+
+  public override renderToolOptions(item: PolygonItem | null) {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return null;
+    }
+
+    // Case: no item selected = new item
+    if (!item) {
+      return html`
+        <p>
+          Click to add points. Click on the first point to close the shape, or
+          double-click to finish it.
+        </p>
+        <p>Stroke width:</p>
+        <input
+          class="width-100-percent"
+          type="range"
+          min="1"
+          max="50"
+          step="7"
+          .value=${this.strokeWidth}
+          @input=${(e: Event) => {
+            const target = e.target as HTMLInputElement;
+            this.strokeWidth = parseInt(target.value, 10);
+          }}
+        />
+        <p>Stroke:</p>
+        ${this.generateColorSelect(
+          ["#000000", "#ff1a40", "#29b312", "#135aa0", "#fc8653"],
+          this.stroke,
+          (color) => {
+            this.stroke = color;
+          }
+        )}
+        <p>Fill:</p>
+        ${this.generateColorSelect(
+          ["transparent", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+          this.fill,
+          (color) => {
+            this.fill = color;
+          }
+        )}
+        <p>
+          <label>
+            <input
+              type="checkbox"
+              .checked=${this.closed}
+              @change=${(e: Event) => {
+                const target = e.target as HTMLInputElement;
+                this.closed = target.checked;
+              }}
+            />
+            Closed shape
+          </label>
+        </p>
+      `;
+    }
+
+    // Case: item selected
+    return html`
+      <p>Stroke width:</p>
+      <input
+        class="width-100-percent"
+        type="range"
+        min="1"
+        max="50"
+        step="7"
+        .value=${item.options.strokeWidth}
+        @input=${(e: Event) => {
+          const target = e.target as HTMLInputElement;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                strokeWidth: parseInt(target.value, 10),
+              },
+            },
+            true
+          );
+        }}
+      />
+      <p>Stroke:</p>
+      ${this.generateColorSelect(
+        ["#000000", "#ff1a40", "#29b312", "#135aa0", "#fc8653"],
+        this.stroke,
+        (color) => {
+          this.stroke = color;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                stroke: color,
+              },
+            },
+            true
+          );
+        }
+      )}
+      <p>Fill:</p>
+      ${this.generateColorSelect(
+        ["transparent", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+        this.fill,
+        (color) => {
+          this.fill = color;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                fill: color,
+              },
+            },
+            true
+          );
+        }
+      )}
+      <p>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${item.closed}
+            ?disabled=${!item.closed && item.points.length < 3}
+            @change=${(e: Event) => {
+              const target = e.target as HTMLInputElement;
+              simpleWhiteboard.updateItemById(
+                item.id,
+                {
+                  ...item,
+                  closed: target.checked,
+                } as PolygonItem,
+                true
+              );
+            }}
+          />
+          Closed shape
+        </label>
+      </p>
+      ${this.renderOrderButtons([item.id])}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.removeItemById(item.id, true);
+        }}
+      >
+        Delete
+      </button>
+    `;
+  }
+}
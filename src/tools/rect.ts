@@ -10,6 +10,13 @@ import SimpleWhiteboardTool, {
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
+import {
+  getDistanceToPolyline,
+  getRectCorners,
+  isPointInRect,
+  shrinkRect,
+} from "../lib/geometry";
+import { getSvgFromDrawable, roughGenerator } from "../lib/svg";
 
 interface RectItem extends WhiteboardItem {
   x: number;
@@ -46,20 +53,58 @@ export class SimpleWhiteboardToolRect extends SimpleWhiteboardTool {
       item.x,
       item.y
     );
-    rc.rectangle(rectX, rectY, item.width, item.height, item.options);
+    const zoom = simpleWhiteboard.getZoom();
+    rc.rectangle(rectX, rectY, item.width * zoom, item.height * zoom, {
+      ...item.options,
+      strokeWidth: (item.options.strokeWidth || 1) * zoom,
+    });
   }
 
-  public override getBoundingRect(item: RectItem): BoundingRect | null {
+  public override getBoundingRect(item: RectItem): BoundingRect {
     const strokeWidth = item.options.strokeWidth || 1;
     const halfStrokeWidth = strokeWidth / 2;
+    // The width and height are negative if the rect was drawn from right to left or from bottom to top
     return {
-      x: item.x - halfStrokeWidth,
-      y: item.y - halfStrokeWidth,
-      width: item.width + strokeWidth,
-      height: item.height + strokeWidth,
+      x: Math.min(item.x, item.x + item.width) - halfStrokeWidth,
+      y: Math.min(item.y, item.y + item.height) - halfStrokeWidth,
+      width: Math.abs(item.width) + strokeWidth,
+      height: Math.abs(item.height) + strokeWidth,
     };
   }
 
+  public override hitTest(
+    item: RectItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const rect = shrinkRect(this.getBoundingRect(item), strokeWidth / 2);
+
+    // A filled rect can be hit anywhere, otherwise only its outline can be hit
+    if (item.options.fill && item.options.fill !== "transparent") {
+      return isPointInRect({ x, y }, rect, tolerance + strokeWidth / 2);
+    }
+    const distance = getDistanceToPolyline(
+      { x, y },
+      getRectCorners(rect),
+      true
+    );
+    return distance <= tolerance + strokeWidth / 2;
+  }
+
+  public override toSvg(item: RectItem): string {
+    return getSvgFromDrawable(
+      roughGenerator.rectangle(
+        item.x,
+        item.y,
+        item.width,
+        item.height,
+        item.options
+      )
+    );
+  }
+
   public override handleDrawingStart(x: number, y: number): void {
     const simpleWhiteboard = super.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -67,9 +112,8 @@ export class SimpleWhiteboardToolRect extends SimpleWhiteboardTool {
     }
     const itemId = super.generateId();
 
-    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
-      x,
-      y
+    const { x: itemX, y: itemY } = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
     );
 
     const item: RectItem = {
@@ -107,12 +151,14 @@ export class SimpleWhiteboardToolRect extends SimpleWhiteboardTool {
     const rectItem = currentDrawing as RectItem;
     const { x: currentX, y: currentY } = rectItem;
 
-    const { x: canvasX, y: canvasY } = simpleWhiteboard.getCanvasCoords();
+    const { x: itemX, y: itemY } = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
+    );
 
     simpleWhiteboard.setCurrentDrawing({
       ...rectItem,
-      width: x - currentX - canvasX,
-      height: y - currentY - canvasY,
+      width: itemX - currentX,
+      height: itemY - currentY,
     } as RectItem);
   }
 
@@ -160,6 +206,21 @@ export class SimpleWhiteboardToolRect extends SimpleWhiteboardTool {
     };
   }
 
+  public override resizeItem(
+    item: RectItem,
+    boundingRect: BoundingRect
+  ): RectItem {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const { x, y, width, height } = shrinkRect(boundingRect, strokeWidth / 2);
+    return {
+      ...item,
+      x,
+      y,
+      width,
+      height,
+    };
+  }
+
   generateColorSelect(
     colors: string[],
     currentColor: string,
@@ -280,6 +341,7 @@ export class SimpleWhiteboardToolRect extends SimpleWhiteboardTool {
           );
         }
       )}
+      ${this.renderOrderButtons([item.id])}
       <button
         class="width-100-percent"
         @click=${() => {
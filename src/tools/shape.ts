@@ -0,0 +1,413 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+
+import "../components/colorSelect";
+import SimpleWhiteboardTool, {
+  BoundingRect,
+  RoughCanvas,
+  RoughCanvasOptions,
+  WhiteboardItem,
+} from "../lib/SimpleWhiteboardTool";
+import { getIconSvg } from "../lib/icons";
+import {
+  getDistanceToPolyline,
+  isPointInPolygon,
+  shrinkRect,
+} from "../lib/geometry";
+import {
+  SHAPE_LABELS,
+  Shape,
+  getShapeOutline,
+  getShapePath,
+} from "../lib/shapes";
+import { getSvgFromDrawable, roughGenerator } from "../lib/svg";
+
+interface ShapeItem extends WhiteboardItem {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shape: Shape;
+  options: RoughCanvasOptions;
+}
+
+@customElement("simple-whiteboard--tool-shape")
+export class SimpleWhiteboardToolShape extends SimpleWhiteboardTool {
+  private stroke = "#000000";
+  private strokeWidth = 1;
+  private fill = "transparent";
+  private shape = Shape.DIAMOND;
+
+  public override getToolIcon() {
+    return html`${unsafeHTML(getIconSvg("star"))}`;
+  }
+
+  public override getToolName() {
+    return "shape";
+  }
+
+  /**
+   * Get the rect filled by the shape, without its stroke.
+   *
+   * @param item The shape.
+   * @returns The rect of the shape.
+   */
+  private getShapeRect(item: ShapeItem): BoundingRect {
+    const strokeWidth = item.options.strokeWidth || 1;
+    return shrinkRect(this.getBoundingRect(item), strokeWidth / 2);
+  }
+
+  public override drawItem(
+    rc: RoughCanvas,
+    _context: CanvasRenderingContext2D,
+    item: ShapeItem
+  ): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const rect = this.getShapeRect(item);
+    const { x: rectX, y: rectY } = simpleWhiteboard.coordsToCanvasCoords(
+      rect.x,
+      rect.y
+    );
+    const zoom = simpleWhiteboard.getZoom();
+    const path = getShapePath(item.shape, {
+      x: rectX,
+      y: rectY,
+      width: rect.width * zoom,
+      height: rect.height * zoom,
+    });
+    rc.path(path, {
+      ...item.options,
+      strokeWidth: (item.options.strokeWidth || 1) * zoom,
+    });
+  }
+
+  public override getBoundingRect(item: ShapeItem): BoundingRect {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const halfStrokeWidth = strokeWidth / 2;
+    // The width and height are negative if the shape was drawn from right to left or from bottom to top
+    return {
+      x: Math.min(item.x, item.x + item.width) - halfStrokeWidth,
+      y: Math.min(item.y, item.y + item.height) - halfStrokeWidth,
+      width: Math.abs(item.width) + strokeWidth,
+      height: Math.abs(item.height) + strokeWidth,
+    };
+  }
+
+  public override hitTest(
+    item: ShapeItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const outline = getShapeOutline(item.shape, this.getShapeRect(item));
+
+    // A filled shape can be hit anywhere, otherwise only its outline can be hit
+    if (
+      item.options.fill &&
+      item.options.fill !== "transparent" &&
+      isPointInPolygon({ x, y }, outline)
+    ) {
+      return true;
+    }
+    const distance = getDistanceToPolyline({ x, y }, outline, true);
+    return distance <= tolerance + strokeWidth / 2;
+  }
+
+  public override toSvg(item: ShapeItem): string {
+    return getSvgFromDrawable(
+      roughGenerator.path(
+        getShapePath(item.shape, this.getShapeRect(item)),
+        item.options
+      )
+    );
+  }
+
+  public override handleDrawingStart(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const itemId = super.generateId();
+
+    const { x: itemX, y: itemY } = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
+    );
+
+    const item: ShapeItem = {
+      kind: this.getToolName(),
+      id: itemId,
+      x: itemX,
+      y: itemY,
+      width: 0,
+      height: 0,
+      shape: this.shape,
+      options: {
+        stroke: this.stroke,
+        strokeWidth: this.strokeWidth,
+        fill: this.fill,
+      },
+    };
+
+    simpleWhiteboard.setCurrentDrawing(item);
+  }
+
+  public override handleDrawingMove(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (!currentDrawing) {
+      return;
+    }
+
+    if (currentDrawing.kind !== this.getToolName()) {
+      return;
+    }
+
+    const shapeItem = currentDrawing as ShapeItem;
+    const { x: currentX, y: currentY } = shapeItem;
+
+    const { x: itemX, y: itemY } = simpleWhiteboard.snapPointToItems(
+      simpleWhiteboard.coordsFromCanvasCoords(x, y)
+    );
+
+    simpleWhiteboard.setCurrentDrawing({
+      ...shapeItem,
+      width: itemX - currentX,
+      height: itemY - currentY,
+    } as ShapeItem);
+  }
+
+  public override handleDrawingEnd(): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const currentDrawing = simpleWhiteboard.getCurrentDrawing();
+    if (!currentDrawing) {
+      return;
+    }
+
+    if (currentDrawing.kind !== this.getToolName()) {
+      return;
+    }
+
+    const item = currentDrawing as ShapeItem;
+    simpleWhiteboard.addItem(item, true);
+    simpleWhiteboard.setCurrentDrawing(null);
+  }
+
+  public override onToolSelected(): void {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    simpleWhiteboard.setSelectedItemId(null);
+  }
+
+  public override getCoordsItem(item: ShapeItem): { x: number; y: number } {
+    return { x: item.x, y: item.y };
+  }
+
+  public override setCoordsItem(
+    item: ShapeItem,
+    x: number,
+    y: number
+  ): ShapeItem {
+    return {
+      ...item,
+      x,
+      y,
+    };
+  }
+
+  public override resizeItem(
+    item: ShapeItem,
+    boundingRect: BoundingRect
+  ): ShapeItem {
+    const strokeWidth = item.options.strokeWidth || 1;
+    const { x, y, width, height } = shrinkRect(boundingRect, strokeWidth / 2);
+    return {
+      ...item,
+      x,
+      y,
+      width,
+      height,
+    };
+  }
+
+  generateColorSelect(
+    colors: string[],
+    currentColor: string,
+    clickCallback: (color: string) => void
+  ) {
+    return colors.map((color) => {
+      return html`<color-select
+        color=${color}
+        .selected=${currentColor === color}
+        @color-click=${(e: CustomEvent) => {
+          clickCallback(e.detail.color);
+        }}
+      ></color-select>`;
+    });
+  }
+
+  generateShapeSelect(
+    currentShape: Shape,
+    changeCallback: (shape: Shape) => void
+  ) {
+    return html`<select
+      class="width-100-percent"
+      @change=${(e: Event) => {
+        const target = e.target as HTMLSelectElement;
+        changeCallback(target.value as Shape);
+      }}
+    >
+      ${(Object.keys(SHAPE_LABELS) as Shape[]).map(
+        (shape) =>
+          html`<option value=${shape} ?selected=${currentShape === shape}>
+            ${SHAPE_LABELS[shape]}
+          </option>`
+      )}
+    </select>`;
+  }
+
+  public override renderToolOptions(item: ShapeItem | null) {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return null;
+    }
+
+    // Case: no item selected = new item
+    if (!item) {
+      return html`
+        <p>Shape:</p>
+        ${this.generateShapeSelect(this.shape, (shape) => {
+          this.shape = shape;
+        })}
+        <p>Stroke width:</p>
+        <input
+          class="width-100-percent"
+          type="range"
+          min="1"
+          max="50"
+          step="7"
+          .value=${this.strokeWidth}
+          @input=${(e: Event) => {
+            const target = e.target as HTMLInputElement;
+            this.strokeWidth = parseInt(target.value, 10);
+          }}
+        />
+        <p>Stroke:</p>
+        ${this.generateColorSelect(
+          ["#000000", "#ff1a40", "#29b312", "#135aa0", "#fc8653"],
+          this.stroke,
+          (color) => {
+            this.stroke = color;
+          }
+        )}
+        <p>Fill:</p>
+        ${this.generateColorSelect(
+          ["transparent", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+          this.fill,
+          (color) => {
+            this.fill = color;
+          }
+        )}
+      `;
+    }
+
+    // Case: item selected
+    return html`
+      <p>Shape:</p>
+      ${this.generateShapeSelect(item.shape, (shape) => {
+        simpleWhiteboard.updateItemById(
+          item.id,
+          {
+            ...item,
+            shape,
+          } as ShapeItem,
+          true
+        );
+      })}
+      <p>Stroke width:</p>
+      <input
+        class="width-100-percent"
+        type="range"
+        min="1"
+        max="50"
+        step="7"
+        .value=${item.options.strokeWidth}
+        @input=${(e: Event) => {
+          const target = e.target as HTMLInputElement;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                strokeWidth: parseInt(target.value, 10),
+              },
+            },
+            true
+          );
+        }}
+      />
+      <p>Stroke:</p>
+      ${this.generateColorSelect(
+        ["#000000", "#ff1a40", "#29b312", "#135aa0", "#fc8653"],
+        this.stroke,
+        (color) => {
+          this.stroke = color;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                stroke: color,
+              },
+            },
+            true
+          );
+        }
+      )}
+      <p>Fill:</p>
+      ${this.generateColorSelect(
+        ["transparent", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+        this.fill,
+        (color) => {
+          this.fill = color;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                fill: color,
+              },
+            },
+            true
+          );
+        }
+      )}
+      ${this.renderOrderButtons([item.id])}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.removeItemById(item.id, true);
+        }}
+      >
+        Delete
+      </button>
+    `;
+  }
+}
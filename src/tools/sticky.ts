@@ -0,0 +1,410 @@
+import { html } from "lit";
+import { customElement } from "lit/decorators.js";
+import { unsafeHTML } from "lit/directives/unsafe-html.js";
+
+import "../components/colorSelect";
+import SimpleWhiteboardTool, {
+  BoundingRect,
+  RoughCanvas,
+  WhiteboardItem,
+} from "../lib/SimpleWhiteboardTool";
+import { getIconSvg } from "../lib/icons";
+import { escapeXml } from "../lib/svg";
+import { TextEditingOptions, wrapText } from "../lib/text";
+
+interface StickyItem extends WhiteboardItem {
+  x: number;
+  y: number;
+  width: number;
+  // Minimum height of the note if it grows with its text
+  height: number;
+  text: string;
+  options: {
+    color: string;
+    textColor: string;
+    fontSize: number;
+    autoGrow: boolean;
+  };
+}
+
+/**
+ * Default size of a new note.
+ */
+const STICKY_SIZE = 200;
+
+/**
+ * Space between the sides of a note and its text.
+ */
+const STICKY_PADDING = 12;
+
+/**
+ * Height of a line of text, relative to the font size.
+ */
+const STICKY_LINE_HEIGHT = 1.25;
+
+const STICKY_FONT_FAMILY = "sans-serif";
+
+@customElement("simple-whiteboard--tool-sticky")
+export class SimpleWhiteboardToolSticky extends SimpleWhiteboardTool {
+  private color = "#fff48f";
+  private fontSize = 16;
+  private autoGrow = true;
+
+  public override getToolIcon() {
+    return html`${unsafeHTML(getIconSvg("file-text"))}`;
+  }
+
+  public override getToolName() {
+    return "sticky";
+  }
+
+  /**
+   * Get the lines of the text of a note, wrapped at its width.
+   *
+   * @param item The note.
+   * @returns The lines of the text.
+   */
+  private getLines(item: StickyItem): string[] {
+    return wrapText(
+      item.text,
+      `${item.options.fontSize}px ${STICKY_FONT_FAMILY}`,
+      Math.max(0, item.width - STICKY_PADDING * 2)
+    );
+  }
+
+  public override drawItem(
+    rc: RoughCanvas,
+    context: CanvasRenderingContext2D,
+    item: StickyItem
+  ): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const boundingRect = this.getBoundingRect(item);
+    const { x, y } = simpleWhiteboard.coordsToCanvasCoords(
+      boundingRect.x,
+      boundingRect.y
+    );
+    const zoom = simpleWhiteboard.getZoom();
+    const width = boundingRect.width * zoom;
+    const height = boundingRect.height * zoom;
+
+    rc.rectangle(x, y, width, height, {
+      fill: item.options.color,
+      fillStyle: "solid",
+      stroke: "none",
+    });
+
+    // The text is displayed by the text editor while it is edited
+    if (simpleWhiteboard.getEditingItemId() === item.id) {
+      return;
+    }
+
+    const fontSize = item.options.fontSize * zoom;
+    const lineHeight = fontSize * STICKY_LINE_HEIGHT;
+    const padding = STICKY_PADDING * zoom;
+
+    context.save();
+    if (!item.options.autoGrow) {
+      context.beginPath();
+      context.rect(x, y, width, height);
+      context.clip();
+    }
+    context.font = `${fontSize}px ${STICKY_FONT_FAMILY}`;
+    context.fillStyle = item.options.textColor;
+    context.textBaseline = "middle";
+    this.getLines(item).forEach((line, i) => {
+      context.fillText(line, x + padding, y + padding + (i + 0.5) * lineHeight);
+    });
+    context.restore();
+  }
+
+  public override getBoundingRect(item: StickyItem): BoundingRect {
+    const contentHeight =
+      this.getLines(item).length * item.options.fontSize * STICKY_LINE_HEIGHT +
+      STICKY_PADDING * 2;
+
+    return {
+      x: item.x,
+      y: item.y,
+      width: item.width,
+      height: item.options.autoGrow
+        ? Math.max(item.height, contentHeight)
+        : item.height,
+    };
+  }
+
+  public override getTextEditingOptions(item: StickyItem): TextEditingOptions {
+    const boundingRect = this.getBoundingRect(item);
+    return {
+      rect: {
+        x: boundingRect.x + STICKY_PADDING,
+        y: boundingRect.y + STICKY_PADDING,
+        width: Math.max(0, boundingRect.width - STICKY_PADDING * 2),
+        height: Math.max(0, boundingRect.height - STICKY_PADDING * 2),
+      },
+      text: item.text,
+      fontSize: item.options.fontSize,
+      fontFamily: STICKY_FONT_FAMILY,
+      bold: false,
+      italic: false,
+      underline: false,
+      color: item.options.textColor,
+      lineHeight: STICKY_LINE_HEIGHT,
+      textAlign: "left",
+      wrap: true,
+      removeIfEmpty: false,
+    };
+  }
+
+  public override setItemText(item: StickyItem, text: string): StickyItem {
+    return {
+      ...item,
+      text,
+    };
+  }
+
+  public override toSvg(item: StickyItem): string {
+    const { x, y, width, height } = this.getBoundingRect(item);
+    const { fontSize, textColor, color } = item.options;
+    const lineHeight = fontSize * STICKY_LINE_HEIGHT;
+    const lines = this.getLines(item)
+      .map(
+        (line, i) =>
+          `<tspan x="${x + STICKY_PADDING}" y="${
+            y + STICKY_PADDING + (i + 0.5) * lineHeight
+          }">${escapeXml(line)}</tspan>`
+      )
+      .join("");
+
+    return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escapeXml(
+      color
+    )}"/><text font-size="${fontSize}" font-family="${STICKY_FONT_FAMILY}" fill="${escapeXml(
+      textColor
+    )}" dominant-baseline="middle" xml:space="preserve">${lines}</text>`;
+  }
+
+  public override handleDrawingStart(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    const itemId = super.generateId();
+
+    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
+      x,
+      y
+    );
+
+    const item: StickyItem = {
+      kind: this.getToolName(),
+      id: itemId,
+      x: itemX - STICKY_SIZE / 2,
+      y: itemY - STICKY_SIZE / 2,
+      width: STICKY_SIZE,
+      height: STICKY_SIZE,
+      text: "",
+      options: {
+        color: this.color,
+        textColor: "#000000",
+        fontSize: this.fontSize,
+        autoGrow: this.autoGrow,
+      },
+    };
+
+    // Adding the note and typing its text are undone in one step
+    simpleWhiteboard.startHistoryBatch();
+    simpleWhiteboard.addItem(item, true);
+    simpleWhiteboard.setSelectedItemId(itemId);
+    simpleWhiteboard.startTextEditing(itemId);
+    simpleWhiteboard.endHistoryBatch();
+  }
+
+  public override onToolSelected(): void {
+    const simpleWhiteboard = this.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+    simpleWhiteboard.setSelectedItemId(null);
+  }
+
+  public override getCoordsItem(item: StickyItem): { x: number; y: number } {
+    return { x: item.x, y: item.y };
+  }
+
+  public override setCoordsItem(
+    item: StickyItem,
+    x: number,
+    y: number
+  ): StickyItem {
+    return {
+      ...item,
+      x,
+      y,
+    };
+  }
+
+  public override resizeItem(
+    item: StickyItem,
+    boundingRect: BoundingRect
+  ): StickyItem {
+    const { x, y, width, height } = boundingRect;
+    return {
+      ...item,
+      x,
+      y,
+      width,
+      height,
+    };
+  }
+
+  generateColorSelect(
+    colors: string[],
+    currentColor: string,
+    clickCallback: (color: string) => void
+  ) {
+    return colors.map((color) => {
+      return html`<color-select
+        color=${color}
+        .selected=${currentColor === color}
+        @color-click=${(e: CustomEvent) => {
+          clickCallback(e.detail.color);
+        }}
+      ></color-select>`;
+    });
+  }
+
+  public override renderToolOptions(item: StickyItem | null) {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return null;
+    }
+
+    // Case: no item selected = new item
+    if (!item) {
+      return html`
+        <p>Font size:</p>
+        <input
+          class="width-100-percent"
+          type="range"
+          min="8"
+          max="64"
+          step="4"
+          .value=${this.fontSize}
+          @input=${(e: Event) => {
+            const target = e.target as HTMLInputElement;
+            this.fontSize = parseInt(target.value, 10);
+          }}
+        />
+        <p>Color:</p>
+        ${this.generateColorSelect(
+          ["#fff48f", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+          this.color,
+          (color) => {
+            this.color = color;
+          }
+        )}
+        <p>
+          <label>
+            <input
+              type="checkbox"
+              .checked=${this.autoGrow}
+              @change=${(e: Event) => {
+                const target = e.target as HTMLInputElement;
+                this.autoGrow = target.checked;
+              }}
+            />
+            Grow with the text
+          </label>
+        </p>
+      `;
+    }
+
+    // Case: item selected
+    return html`
+      <p>Font size:</p>
+      <input
+        class="width-100-percent"
+        type="range"
+        min="8"
+        max="64"
+        step="4"
+        .value=${item.options.fontSize}
+        @input=${(e: Event) => {
+          const target = e.target as HTMLInputElement;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                fontSize: parseInt(target.value, 10),
+              },
+            },
+            true
+          );
+        }}
+      />
+      <p>Color:</p>
+      ${this.generateColorSelect(
+        ["#fff48f", "#ff8dad", "#9bff8c", "#8fddff", "#ffc7a9"],
+        item.options.color,
+        (color) => {
+          this.color = color;
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                color,
+              },
+            },
+            true
+          );
+        }
+      )}
+      <p>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${item.options.autoGrow}
+            @change=${(e: Event) => {
+              const target = e.target as HTMLInputElement;
+              simpleWhiteboard.updateItemById(
+                item.id,
+                {
+                  ...item,
+                  options: {
+                    ...item.options,
+                    autoGrow: target.checked,
+                  },
+                },
+                true
+              );
+            }}
+          />
+          Grow with the text
+        </label>
+      </p>
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.startTextEditing(item.id);
+        }}
+      >
+        Edit text
+      </button>
+      ${this.renderOrderButtons([item.id])}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.removeItemById(item.id, true);
+        }}
+      >
+        Delete
+      </button>
+    `;
+  }
+}
@@ -9,10 +9,21 @@ import SimpleWhiteboardTool, {
   WhiteboardItem,
 } from "../lib/SimpleWhiteboardTool";
 import { getIconSvg } from "../lib/icons";
+import { escapeXml } from "../lib/svg";
+import {
+  FONT_FAMILIES,
+  TextAlign,
+  TextEditingOptions,
+  getCssFont,
+  measureText,
+  wrapText,
+} from "../lib/text";
+import { isPointInRect } from "../lib/geometry";
 
 interface TextItem extends WhiteboardItem {
   x: number;
   y: number;
+  // Width at which the text wraps, or 0 if it does not wrap
   width: number;
   height: number;
   text: string;
@@ -20,13 +31,56 @@ interface TextItem extends WhiteboardItem {
     fontSize: number;
     fontFamily: string;
     color: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    textAlign?: TextAlign;
+    // Height of a line, relative to the font size
+    lineHeight?: number;
   };
 }
 
+type TextFormatting = Required<Omit<TextItem["options"], "fontSize" | "color">>;
+
+/**
+ * Width at which new texts wrap, if wrapping is enabled.
+ */
+const DEFAULT_WRAP_WIDTH = 200;
+
+/**
+ * Position of a line in the box of the text, for each alignment.
+ */
+const ALIGNMENT_RATIOS: Record<TextAlign, number> = {
+  left: 0,
+  center: 0.5,
+  right: 1,
+};
+
+const STYLE_LABELS = {
+  bold: "Bold",
+  italic: "Italic",
+  underline: "Underline",
+};
+
+const ALIGNMENT_LABELS: Record<TextAlign, string> = {
+  left: "Left",
+  center: "Center",
+  right: "Right",
+};
+
 @customElement("simple-whiteboard--tool-text")
 export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
-  private ctx: CanvasRenderingContext2D | null = null;
   private color = "#000000";
+  private fontSize = 16;
+  private formatting: TextFormatting = {
+    fontFamily: "sans-serif",
+    bold: false,
+    italic: false,
+    underline: false,
+    textAlign: "left",
+    lineHeight: 1.25,
+  };
+  private wrap = false;
 
   public override getToolIcon() {
     return html`${unsafeHTML(getIconSvg("type"))}`;
@@ -36,6 +90,105 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     return "text";
   }
 
+  /**
+   * Get the formatting of a text, with defaults for the options that older texts don't have.
+   *
+   * @param item The text item.
+   * @returns The formatting of the text.
+   */
+  private getFormatting(item: TextItem): TextFormatting {
+    const { fontFamily, bold, italic, underline, textAlign, lineHeight } =
+      item.options;
+    return {
+      fontFamily,
+      bold: !!bold,
+      italic: !!italic,
+      underline: !!underline,
+      textAlign: textAlign || "left",
+      lineHeight: lineHeight || 1,
+    };
+  }
+
+  /**
+   * Check if a text was created before the formatting options.
+   * Such texts have their baseline at the bottom of their lines, where newer texts are vertically centered in their lines,
+   * so they keep being drawn that way to stay where they were placed.
+   *
+   * @param item The text item.
+   * @returns `true` if the text has no line height.
+   */
+  private isLegacyText(item: TextItem): boolean {
+    return item.options.lineHeight === undefined;
+  }
+
+  /**
+   * Get the CSS font of a text.
+   *
+   * @param item The text item.
+   * @param scale The scale of the font, to draw it on a zoomed canvas.
+   * @returns The CSS font.
+   */
+  private getFont(item: TextItem, scale = 1): string {
+    const { fontFamily, bold, italic } = this.getFormatting(item);
+    return getCssFont(item.options.fontSize * scale, fontFamily, bold, italic);
+  }
+
+  /**
+   * Get the lines of a text, wrapped at its width if needed.
+   *
+   * @param item The text item.
+   * @returns The lines of the text.
+   */
+  private getLines(item: TextItem): string[] {
+    return wrapText(
+      item.text,
+      this.getFont(item),
+      item.width > 0 ? item.width : null
+    );
+  }
+
+  /**
+   * Get the width of the box in which the lines of a text are aligned.
+   *
+   * @param item The text item.
+   * @returns The width at which the text wraps, or else the width of its longest line.
+   */
+  private getTextWidth(item: TextItem): number {
+    if (item.width > 0) {
+      return item.width;
+    }
+    const font = this.getFont(item);
+    return Math.max(
+      ...this.getLines(item).map((line) => measureText(line, font))
+    );
+  }
+
+  /**
+   * Get each line of a text, with its box.
+   *
+   * @param item The text item.
+   * @returns The lines of the text, with their boxes.
+   */
+  private getLineBoxes(item: TextItem): { line: string; rect: BoundingRect }[] {
+    const { textAlign, lineHeight } = this.getFormatting(item);
+    const font = this.getFont(item);
+    const textWidth = this.getTextWidth(item);
+    const height = item.options.fontSize * lineHeight;
+
+    return this.getLines(item).map((line, i) => {
+      const width = measureText(line, font);
+      return {
+        line,
+        rect: {
+          x: item.x + (textWidth - width) * ALIGNMENT_RATIOS[textAlign],
+          y: item.y + i * height,
+          width,
+          height,
+        },
+      };
+    });
+  }
+
   public override drawItem(
     _rc: RoughCanvas,
     context: CanvasRenderingContext2D,
@@ -45,19 +198,60 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     if (!simpleWhiteboard) {
       return;
     }
-    this.ctx = context;
-    const { x: textX, y: textY } = simpleWhiteboard.coordsToCanvasCoords(
-      item.x,
-      item.y
-    );
-    context.font = `${item.options.fontSize}px ${item.options.fontFamily}`;
+    // The text is displayed by the text editor while it is edited
+    if (simpleWhiteboard.getEditingItemId() === item.id) {
+      return;
+    }
 
-    const prevFillStyle = context.fillStyle;
+    const zoom = simpleWhiteboard.getZoom();
+    const fontSize = item.options.fontSize * zoom;
+    const { underline } = this.getFormatting(item);
+
+    context.save();
+    context.font = this.getFont(item, zoom);
     context.fillStyle = item.options.color || "#000000";
-    item.text.split("\n").forEach((line, i) => {
-      context.fillText(line, textX, textY + (i + 1) * item.options.fontSize);
+    context.strokeStyle = item.options.color || "#000000";
+    context.lineWidth = Math.max(1, fontSize / 16);
+    // Lines are vertically centered in their box, like in the text editor, except in legacy texts
+    const legacy = this.isLegacyText(item);
+    context.textBaseline = legacy ? "alphabetic" : "middle";
+    this.getLineBoxes(item).forEach(({ line, rect }) => {
+      const { x, y } = simpleWhiteboard.coordsToCanvasCoords(rect.x, rect.y);
+      const textY = y + rect.height * zoom * (legacy ? 1 : 0.5);
+      context.fillText(line, x, textY);
+
+      if (underline) {
+        const underlineY = textY + fontSize * (legacy ? 0.1 : 0.4);
+        context.beginPath();
+        context.moveTo(x, underlineY);
+        context.lineTo(x + rect.width * zoom, underlineY);
+        context.stroke();
+      }
     });
-    context.fillStyle = prevFillStyle;
+    context.restore();
+  }
+
+  public override toSvg(item: TextItem): string {
+    const { fontSize, color } = item.options;
+    const { fontFamily, bold, italic, underline } = this.getFormatting(item);
+    const legacy = this.isLegacyText(item);
+    const lines = this.getLineBoxes(item)
+      .map(
+        ({ line, rect }) =>
+          `<tspan x="${rect.x}" y="${
+            rect.y + rect.height * (legacy ? 1 : 0.5)
+          }">${escapeXml(line)}</tspan>`
+      )
+      .join("");
+    return `<text font-size="${fontSize}" font-family="${escapeXml(
+      fontFamily
+    )}" font-weight="${bold ? "bold" : "normal"}" font-style="${
+      italic ? "italic" : "normal"
+    }" text-decoration="${underline ? "underline" : "none"}" fill="${escapeXml(
+      color || "#000000"
+    )}" dominant-baseline="${
+      legacy ? "alphabetic" : "middle"
+    }" xml:space="preserve">${lines}</text>`;
   }
 
   public override onToolSelected(): void {
@@ -65,59 +259,119 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     if (!simpleWhiteboard) {
       return;
     }
+    simpleWhiteboard.setSelectedItemId(null);
+  }
+
+  public override handleDrawingStart(x: number, y: number): void {
+    const simpleWhiteboard = super.getSimpleWhiteboardInstance();
+    if (!simpleWhiteboard) {
+      return;
+    }
+
+    const { x: itemX, y: itemY } = simpleWhiteboard.coordsFromCanvasCoords(
+      x,
+      y
+    );
+
+    // Edit the text under the pointer, if any
+    const existingItem = simpleWhiteboard
+      .getItemsInDrawingOrder()
+      .reverse()
+      .find(
+        (item) =>
+          item.kind === this.getToolName() &&
+          simpleWhiteboard.isItemOnEditableLayer(item) &&
+          simpleWhiteboard.hitTestItem(item, itemX, itemY)
+      );
+    if (existingItem) {
+      simpleWhiteboard.setSelectedItemId(existingItem.id);
+      simpleWhiteboard.startTextEditing(existingItem.id);
+      return;
+    }
+
+    // Else add a new text, with the caret centered on the pointer
     const id = super.generateId();
     const item: TextItem = {
       kind: this.getToolName(),
       id,
       options: {
-        fontSize: 16,
-        fontFamily: "sans-serif",
+        ...this.formatting,
+        fontSize: this.fontSize,
         color: this.color,
       },
-      x: 0,
-      y: 0,
-      width: 0,
+      x: itemX,
+      y: itemY - (this.fontSize * this.formatting.lineHeight) / 2,
+      width: this.wrap ? DEFAULT_WRAP_WIDTH : 0,
       height: 0,
       text: "",
     };
+
+    // Adding the text and typing it are undone in one step, and nothing is recorded if it stays empty
+    simpleWhiteboard.startHistoryBatch();
     simpleWhiteboard.addItem(item, true);
     simpleWhiteboard.setSelectedItemId(id);
+    simpleWhiteboard.startTextEditing(id);
+    simpleWhiteboard.endHistoryBatch();
   }
 
-  public override getBoundingRect(item: TextItem): BoundingRect | null {
-    const splittedText = item.text.split("\n");
-    const height = splittedText.length * item.options.fontSize;
-
-    if (!this.ctx) {
-      const textWidth = splittedText.reduce((maxWidth, line) => {
-        const width = line.length || 0;
-        return Math.max(maxWidth, width);
-      }, 0);
-      return {
-        x: item.x - 10,
-        y: item.y - 5,
-        width: textWidth + 20,
-        height: height + 20,
-      };
-    }
+  public override getTextEditingOptions(item: TextItem): TextEditingOptions {
+    const formatting = this.getFormatting(item);
+    return {
+      rect: {
+        x: item.x,
+        y: item.y,
+        width: this.getTextWidth(item),
+        height:
+          this.getLines(item).length *
+          item.options.fontSize *
+          formatting.lineHeight,
+      },
+      text: item.text,
+      fontSize: item.options.fontSize,
+      ...formatting,
+      color: item.options.color || "#000000",
+      wrap: item.width > 0,
+      removeIfEmpty: true,
+    };
+  }
 
-    const textWidth = splittedText.reduce((maxWidth, line) => {
-      if (!this.ctx) {
-        return maxWidth;
-      }
-      this.ctx.font = `${item.options.fontSize}px ${item.options.fontFamily}`;
-      const width = this.ctx.measureText(line).width || 0;
-      return Math.max(maxWidth, width);
-    }, 0);
+  public override setItemText(item: TextItem, text: string): TextItem {
+    return {
+      ...item,
+      text,
+    };
+  }
+
+  public override getBoundingRect(item: TextItem): BoundingRect | null {
+    const { lineHeight } = this.getFormatting(item);
+    const height =
+      this.getLines(item).length * item.options.fontSize * lineHeight;
 
     return {
       x: item.x - 10,
       y: item.y - 5,
-      width: textWidth + 20,
+      width: this.getTextWidth(item) + 20,
       height: height + 20,
     };
   }
 
+  public override hitTest(
+    item: TextItem,
+    x: number,
+    y: number,
+    tolerance: number
+  ): boolean {
+    // An empty text can only be grabbed by its box
+    if (item.text.trim() === "") {
+      return super.hitTest(item, x, y, tolerance);
+    }
+
+    // Only the lines themselves are hit, not the blank space next to the shorter ones
+    return this.getLineBoxes(item).some(({ rect }) =>
+      isPointInRect({ x, y }, rect, tolerance)
+    );
+  }
+
   public override getCoordsItem(item: TextItem): { x: number; y: number } {
     return { x: item.x, y: item.y };
   }
@@ -134,6 +388,39 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     };
   }
 
+  public override resizeItem(
+    item: TextItem,
+    boundingRect: BoundingRect
+  ): TextItem {
+    // Wrapped texts keep their font and wrap at the new width
+    if (item.width > 0) {
+      return {
+        ...item,
+        x: boundingRect.x + 10,
+        y: boundingRect.y + 5,
+        width: Math.max(1, boundingRect.width - 20),
+      };
+    }
+
+    const currentBoundingRect = this.getBoundingRect(item);
+    if (!currentBoundingRect || currentBoundingRect.height <= 20) {
+      return item;
+    }
+
+    // Text can't be stretched, so only the height (without the padding) is used to scale the font
+    const scale =
+      (boundingRect.height - 20) / (currentBoundingRect.height - 20);
+    return {
+      ...item,
+      x: boundingRect.x + 10,
+      y: boundingRect.y + 5,
+      options: {
+        ...item.options,
+        fontSize: Math.max(1, item.options.fontSize * scale),
+      },
+    };
+  }
+
   generateColorSelect(
     colors: string[],
     currentColor: string,
@@ -150,6 +437,100 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
     });
   }
 
+  /**
+   * Render the formatting options, for the new texts or for the selected one.
+   *
+   * @param formatting The current formatting.
+   * @param wrap Whether the text wraps.
+   * @param changeCallback Called with the changed formatting options.
+   * @param wrapCallback Called when wrapping is enabled or disabled.
+   * @returns The formatting options.
+   */
+  private renderFormattingOptions(
+    formatting: TextFormatting,
+    wrap: boolean,
+    changeCallback: (changes: Partial<TextFormatting>) => void,
+    wrapCallback: (wrap: boolean) => void
+  ) {
+    return html`
+      <p>Font:</p>
+      <select
+        class="width-100-percent"
+        @change=${(e: Event) => {
+          const target = e.target as HTMLSelectElement;
+          changeCallback({ fontFamily: target.value });
+        }}
+      >
+        ${Object.entries(FONT_FAMILIES).map(
+          ([label, fontFamily]) => html`<option
+            value=${fontFamily}
+            ?selected=${formatting.fontFamily === fontFamily}
+          >
+            ${label}
+          </option>`
+        )}
+      </select>
+      ${(Object.keys(STYLE_LABELS) as (keyof typeof STYLE_LABELS)[]).map(
+        (style) => html`<p>
+          <label>
+            <input
+              type="checkbox"
+              .checked=${formatting[style]}
+              @change=${(e: Event) => {
+                const target = e.target as HTMLInputElement;
+                changeCallback({ [style]: target.checked });
+              }}
+            />
+            ${STYLE_LABELS[style]}
+          </label>
+        </p>`
+      )}
+      <p>Alignment:</p>
+      <select
+        class="width-100-percent"
+        @change=${(e: Event) => {
+          const target = e.target as HTMLSelectElement;
+          changeCallback({ textAlign: target.value as TextAlign });
+        }}
+      >
+        ${(Object.keys(ALIGNMENT_LABELS) as TextAlign[]).map(
+          (textAlign) => html`<option
+            value=${textAlign}
+            ?selected=${formatting.textAlign === textAlign}
+          >
+            ${ALIGNMENT_LABELS[textAlign]}
+          </option>`
+        )}
+      </select>
+      <p>Line height:</p>
+      <input
+        class="width-100-percent"
+        type="range"
+        min="1"
+        max="2"
+        step="0.25"
+        .value=${formatting.lineHeight}
+        @input=${(e: Event) => {
+          const target = e.target as HTMLInputElement;
+          changeCallback({ lineHeight: parseFloat(target.value) });
+        }}
+      />
+      <p>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${wrap}
+            @change=${(e: Event) => {
+              const target = e.target as HTMLInputElement;
+              wrapCallback(target.checked);
+            }}
+          />
+          Wrap text
+        </label>
+      </p>
+    `;
+  }
+
   public override renderToolOptions(item: TextItem | null) {
     const simpleWhiteboard = super.getSimpleWhiteboardInstance();
     if (!simpleWhiteboard) {
@@ -158,26 +539,44 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
 
     // Case: no item selected = new item
     if (!item) {
-      return null;
+      return html`
+        <p>Click on the canvas to add a text.</p>
+        <p>Size:</p>
+        <input
+          class="width-100-percent"
+          type="range"
+          min="8"
+          max="240"
+          step="8"
+          .value=${this.fontSize}
+          @input=${(e: Event) => {
+            const target = e.target as HTMLInputElement;
+            this.fontSize = parseInt(target.value, 10);
+          }}
+        />
+        <p>Color:</p>
+        ${this.generateColorSelect(
+          ["#000000", "#ff1a40", "#29b312", "#135aa0", "#fc8653"],
+          this.color,
+          (color) => {
+            this.color = color;
+          }
+        )}
+        ${this.renderFormattingOptions(
+          this.formatting,
+          this.wrap,
+          (changes) => {
+            this.formatting = { ...this.formatting, ...changes };
+          },
+          (wrap) => {
+            this.wrap = wrap;
+          }
+        )}
+      `;
     }
 
-    // Case: item selected => we want to be able to edit the instance
+    // Case: item selected
     return html`
-      <p>Edit your text:</p>
-      <textarea
-        autofocus
-        class="width-100-percent"
-        @input=${(e: Event) => {
-          const target = e.target as HTMLTextAreaElement;
-          const text = target.value;
-          const updatedItem: TextItem = {
-            ...item,
-            text,
-          };
-          simpleWhiteboard.updateItemById(item.id, updatedItem, true);
-        }}
-        .value=${item.text}
-      ></textarea>
       <p>Size:</p>
       <input
         class="width-100-percent"
@@ -220,7 +619,45 @@ export class SimpleWhiteboardToolPicture extends SimpleWhiteboardTool {
           );
         }
       )}
+      ${this.renderFormattingOptions(
+        this.getFormatting(item),
+        item.width > 0,
+        (changes) => {
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              options: {
+                ...item.options,
+                ...changes,
+              },
+            },
+            true
+          );
+        },
+        (wrap) => {
+          // Wrap the text at its current width, so that its lines don't move
+          simpleWhiteboard.updateItemById(
+            item.id,
+            {
+              ...item,
+              width: wrap ? Math.max(1, this.getTextWidth(item)) : 0,
+            } as TextItem,
+            true
+          );
+        }
+      )}
+      <button
+        class="width-100-percent"
+        @click=${() => {
+          simpleWhiteboard.startTextEditing(item.id);
+        }}
+      >
+        Edit text
+      </button>
+      ${this.renderOrderButtons([item.id])}
       <button
+        class="width-100-percent"
         @click=${() => {
           simpleWhiteboard.removeItemById(item.id, true);
         }}